@@ -1,5 +1,5 @@
 import React, { useState, useEffect, createContext, useContext } from 'react';
-import { NavigationContainer, DefaultTheme, DarkTheme } from '@react-navigation/native';
+import { NavigationContainer, DefaultTheme, DarkTheme, createNavigationContainerRef } from '@react-navigation/native';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
 import { StatusBar } from 'expo-status-bar';
 import { Ionicons } from '@expo/vector-icons';
@@ -14,6 +14,9 @@ let Notifications: any;
 let ensurePermissionsAndChannel: any;
 let GoogleSignin: any;
 let proactiveCheckInManager: any;
+let handleReminderResponse: typeof import('./utils/reminderNotifications').handleReminderResponse;
+let ensureReminderCategory: typeof import('./utils/reminderNotifications').ensureReminderCategory;
+let watchReminderNotifications: typeof import('./utils/reminderNotifications').watchReminderNotifications;
 
 if (Platform.OS !== 'web') {
   // Only import native modules on mobile platforms
@@ -26,17 +29,22 @@ if (Platform.OS !== 'web') {
   ensurePermissionsAndChannel = require('./utils/notifications').ensurePermissionsAndChannel;
   GoogleSignin = require('@react-native-google-signin/google-signin').GoogleSignin;
   proactiveCheckInManager = require('./utils/proactiveCheckIn').proactiveCheckInManager;
+  ({ handleReminderResponse, ensureReminderCategory, watchReminderNotifications } = require('./utils/reminderNotifications'));
 } else {
   // Web fallbacks
   GestureHandlerRootView = ({ children, ...props }: any) => React.createElement('div', props, children);
   AsyncStorage = {
     getItem: (key: string) => Promise.resolve(localStorage.getItem(key)),
     setItem: (key: string, value: string) => Promise.resolve(localStorage.setItem(key, value)),
-    removeItem: (key: string) => Promise.resolve(localStorage.removeItem(key))
+    removeItem: (key: string) => Promise.resolve(localStorage.removeItem(key)),
+    getAllKeys: () => Promise.resolve(Object.keys(localStorage))
   };
   AppState = { addEventListener: () => ({ remove: () => {} }) };
   Notifications = { addNotificationResponseReceivedListener: () => ({ remove: () => {} }) };
   ensurePermissionsAndChannel = () => {};
+  handleReminderResponse = () => Promise.resolve(false);
+  ensureReminderCategory = async () => {};
+  watchReminderNotifications = () => () => {};
   GoogleSignin = { configure: () => {} };
   proactiveCheckInManager = {
     setAppState: () => {},
@@ -44,7 +52,8 @@ if (Platform.OS !== 'web') {
     stop: () => {},
     setLoginState: () => {},
     onCentralHubActive: () => {},
-    onCentralHubInactive: () => {}
+    onCentralHubInactive: () => {},
+    setNavigator: () => {}
   };
 }
 
@@ -55,8 +64,18 @@ import LabScreen from './screens/LabScreen';
 import SettingsScreen from './screens/SettingsScreen';
 import TestScreen from './screens/TestScreen';
 import WebPlaceholder from './components/WebPlaceholder';
+import { initStorage, readSetting, writeSetting } from './utils/storage';
+import type { CheckInPayload } from './utils/checkInScheduler';
+
+// Tapped check-ins open the chat for their thread
+type RootTabParamList = {
+  Chat: { threadId?: string; categoryId?: string } | undefined;
+  Lab: undefined;
+  Settings: undefined;
+};
 
 const Tab = createBottomTabNavigator();
+const navigationRef = createNavigationContainerRef<RootTabParamList>();
 
 // Create Dark Mode Context
 interface DarkModeContextType {
@@ -86,6 +105,7 @@ export default function App() {
     if (Platform.OS !== 'web') {
       // Initialize notifications permissions/channel
       ensurePermissionsAndChannel();
+      ensureReminderCategory();
       // Initialize Google Sign-In
       GoogleSignin.configure({
         webClientId: process.env.EXPO_PUBLIC_GOOGLE_WEB_CLIENT_ID, // Use Web client ID for webClientId parameter
@@ -97,9 +117,18 @@ export default function App() {
       };
       
       const appStateSubscription = AppState.addEventListener('change', handleAppStateChange);
+
+      // Tapped check-ins open the chat they were written for
+      proactiveCheckInManager.setNavigator((payload: CheckInPayload) => {
+        if (navigationRef.isReady()) {
+          navigationRef.navigate('Chat', { threadId: payload.threadId, categoryId: payload.categoryId });
+        }
+      });
       
       // Listen for notification responses (when user taps notification)
-      const notificationResponseSubscription = Notifications.addNotificationResponseReceivedListener((response: any) => {
+      const notificationResponseSubscription = Notifications.addNotificationResponseReceivedListener(async (response: any) => {
+        // Deadline reminders handle their own snooze action
+        if (await handleReminderResponse(response)) return;
         proactiveCheckInManager.handleNotificationResponse(response.notification.request.content.data);
       });
       
@@ -107,17 +136,22 @@ export default function App() {
       return () => {
         appStateSubscription?.remove();
         notificationResponseSubscription.remove();
+        proactiveCheckInManager.setNavigator(null);
         proactiveCheckInManager.stop();
       };
     }
   }, []);
 
+  // Deadline reminders follow saved goals and settings once storage is loaded
+  useEffect(() => {
+    if (isLoading) return;
+    return watchReminderNotifications();
+  }, [isLoading]);
+
   const loadDarkModePreference = async () => {
     try {
-      const darkModePreference = await AsyncStorage.getItem('dark_mode');
-      if (darkModePreference !== null) {
-        setIsDarkMode(JSON.parse(darkModePreference));
-      }
+      await initStorage(AsyncStorage);
+      setIsDarkMode(await readSetting('darkMode', false));
     } catch (error) {
       console.error('Error loading dark mode preference:', error);
     } finally {
@@ -148,7 +182,7 @@ export default function App() {
     
     // Save to AsyncStorage
     try {
-      await AsyncStorage.setItem('dark_mode', JSON.stringify(newDarkMode));
+      await writeSetting('darkMode', newDarkMode);
     } catch (error) {
       console.error('Error saving dark mode preference:', error);
     }
@@ -216,6 +250,7 @@ export default function App() {
         }),
       }}>
         <NavigationContainer 
+          ref={navigationRef}
           theme={isDarkMode ? customDarkTheme : customLightTheme}
           onStateChange={Platform.OS === 'web' ? undefined : handleNavigationStateChange}
         >
@@ -0,0 +1,263 @@
+// Platform-agnostic core of proactive check-ins. It decides *when* the future
+// self should reach out and *where* tapping the check-in leads; delivering it
+// (local notification, in-app banner, ...) is left to a CheckInDelivery.
+// Time and randomness are injected so the scheduler can run on a fake clock.
+
+export interface Clock {
+  now(): number;
+  setTimeout(callback: () => void, ms: number): unknown;
+  clearTimeout(handle: unknown): void;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: handle => clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+export interface CheckInTarget {
+  // Chat thread the check-in opens: 'home' or 'category-<id>'
+  threadId: string;
+  categoryId?: string;
+  categoryTitle?: string;
+}
+
+export interface CheckInPayload extends CheckInTarget {
+  type: 'proactive-check-in';
+  id: string;
+  route: 'Chat';
+  scheduledFor: number;
+  title: string;
+  body: string;
+}
+
+export interface CheckInDelivery {
+  // Hand the check-in to the platform to show at `at` (epoch ms)
+  schedule(payload: CheckInPayload, at: number): void | Promise<void>;
+  cancel(payload: CheckInPayload): void | Promise<void>;
+}
+
+export interface CheckInSchedulerOptions {
+  delivery: CheckInDelivery;
+  intervalHours?: number;
+  // Never check in twice within this many minutes
+  minGapMinutes?: number;
+  clock?: Clock;
+  random?: () => number;
+  // Called when a fired check-in is opened, once the user is logged in
+  onOpen?: (payload: CheckInPayload) => void;
+}
+
+export type AppStateStatus = 'active' | 'background' | 'inactive' | 'unknown' | 'extension';
+
+const HOUR_MS = 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+export const HOME_CHECK_IN_TARGET: CheckInTarget = { threadId: 'home' };
+
+const HOME_MESSAGES = [
+  "Quick check-in from future you. How's today going?",
+  "I remember this week. What's the one thing you said you'd do today?",
+  "Hey, it's me. Still on track? I know you can be.",
+];
+
+const CATEGORY_MESSAGES = [
+  (title: string) => `How's "${title}" going? Even a small step counts today.`,
+  (title: string) => `Future you here, thinking about "${title}". What's next?`,
+];
+
+export function isCheckInPayload(data: unknown): data is CheckInPayload {
+  return typeof data === 'object'
+    && data !== null
+    && (data as CheckInPayload).type === 'proactive-check-in'
+    && typeof (data as CheckInPayload).threadId === 'string';
+}
+
+export class CheckInScheduler {
+  private readonly delivery: CheckInDelivery;
+  private readonly clock: Clock;
+  private readonly random: () => number;
+  private readonly minGapMs: number;
+  private readonly onOpen?: (payload: CheckInPayload) => void;
+
+  private intervalHours: number;
+  private enabled = true;
+  private loggedIn = false;
+  private hubActive = false;
+  private targets: CheckInTarget[] = [HOME_CHECK_IN_TARGET];
+
+  private pending: CheckInPayload | null = null;
+  private timer: unknown = null;
+  private windowEnd: number | null = null;
+  private lastCheckInAt: number | null = null;
+  private queuedOpen: CheckInPayload | null = null;
+
+  constructor(options: CheckInSchedulerOptions) {
+    this.delivery = options.delivery;
+    this.clock = options.clock ?? systemClock;
+    this.random = options.random ?? Math.random;
+    this.minGapMs = (options.minGapMinutes ?? 30) * MINUTE_MS;
+    this.intervalHours = Math.max(1, options.intervalHours ?? 1);
+    this.onOpen = options.onOpen;
+  }
+
+  getPending(): CheckInPayload | null {
+    return this.pending;
+  }
+
+  setLoginState(loggedIn: boolean) {
+    this.loggedIn = loggedIn;
+    if (loggedIn && this.queuedOpen) {
+      const payload = this.queuedOpen;
+      this.queuedOpen = null;
+      this.onOpen?.(payload);
+    }
+    this.reconcile();
+  }
+
+  setEnabled(enabled: boolean) {
+    this.enabled = enabled;
+    this.reconcile();
+  }
+
+  setIntervalHours(hours: number) {
+    const next = Math.max(1, Math.round(hours));
+    if (next === this.intervalHours) return;
+    this.intervalHours = next;
+    // The current plan was drawn for the old interval
+    this.windowEnd = null;
+    this.cancelPending();
+    this.reconcile();
+  }
+
+  // Chats a check-in may lead to; the home chat is used when empty
+  setTargets(targets: CheckInTarget[]) {
+    this.targets = targets.length > 0 ? targets : [HOME_CHECK_IN_TARGET];
+  }
+
+  // The user is already talking to their future self on the Chat tab, so a
+  // check-in would only interrupt. Resume planning once they leave.
+  onCentralHubActive() {
+    this.hubActive = true;
+    this.cancelPending();
+  }
+
+  onCentralHubInactive() {
+    this.hubActive = false;
+    this.reconcile();
+  }
+
+  setAppState(state: AppStateStatus) {
+    // Timers don't run while backgrounded; catch up on a check-in the OS
+    // delivered in the meantime
+    if (state === 'active') this.collectFired();
+    this.reconcile();
+  }
+
+  // A delivered check-in was tapped
+  handleNotificationResponse(data: unknown) {
+    if (!isCheckInPayload(data)) return;
+
+    if (this.pending?.id === data.id) {
+      this.markFired(this.pending);
+    }
+    if (this.loggedIn) {
+      this.onOpen?.(data);
+    } else {
+      this.queuedOpen = data;
+    }
+  }
+
+  stop() {
+    this.cancelPending();
+    this.loggedIn = false;
+  }
+
+  private canSchedule() {
+    return this.enabled && this.loggedIn && !this.hubActive;
+  }
+
+  private reconcile() {
+    if (!this.canSchedule()) {
+      this.cancelPending();
+      return;
+    }
+    if (this.pending) return;
+
+    const payload = this.plan();
+    this.pending = payload;
+    void this.delivery.schedule(payload, payload.scheduledFor);
+    this.armTimer(payload);
+  }
+
+  // One check-in per interval window, at a random moment inside it
+  private plan(): CheckInPayload {
+    const now = this.clock.now();
+    const windowMs = this.intervalHours * HOUR_MS;
+
+    let start = now;
+    if (this.windowEnd === null || now >= this.windowEnd) {
+      this.windowEnd = now + windowMs;
+    } else if (this.lastCheckInAt !== null && this.lastCheckInAt >= this.windowEnd - windowMs) {
+      // Already checked in during this window; draw from the next one
+      start = this.windowEnd;
+      this.windowEnd += windowMs;
+    }
+    // A check-in suppressed mid-window is redrawn from what remains of it
+    start = Math.max(start, (this.lastCheckInAt ?? -Infinity) + this.minGapMs, now + MINUTE_MS);
+    const scheduledFor = Math.round(start + this.random() * Math.max(0, this.windowEnd - start));
+
+    const target = this.targets[Math.floor(this.random() * this.targets.length)] ?? HOME_CHECK_IN_TARGET;
+    const body = target.categoryTitle
+      ? CATEGORY_MESSAGES[Math.floor(this.random() * CATEGORY_MESSAGES.length)](target.categoryTitle)
+      : HOME_MESSAGES[Math.floor(this.random() * HOME_MESSAGES.length)];
+
+    return {
+      type: 'proactive-check-in',
+      id: `check-in-${scheduledFor}`,
+      route: 'Chat',
+      scheduledFor,
+      title: 'Future You',
+      body,
+      ...target,
+    };
+  }
+
+  private armTimer(payload: CheckInPayload) {
+    this.clearTimer();
+    const delay = Math.max(0, payload.scheduledFor - this.clock.now());
+    this.timer = this.clock.setTimeout(() => {
+      this.timer = null;
+      this.collectFired();
+      this.reconcile();
+    }, delay);
+  }
+
+  private collectFired() {
+    if (this.pending && this.pending.scheduledFor <= this.clock.now()) {
+      this.markFired(this.pending);
+    }
+  }
+
+  private markFired(payload: CheckInPayload) {
+    this.lastCheckInAt = payload.scheduledFor;
+    this.pending = null;
+    this.clearTimer();
+  }
+
+  private cancelPending() {
+    this.clearTimer();
+    if (this.pending) {
+      const payload = this.pending;
+      this.pending = null;
+      void this.delivery.cancel(payload);
+    }
+  }
+
+  private clearTimer() {
+    if (this.timer !== null) {
+      this.clock.clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -0,0 +1,77 @@
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+
+export const CHECK_IN_CHANNEL_ID = 'check-ins';
+export const REMINDER_CHANNEL_ID = 'deadline-reminders';
+
+// Show check-ins and reminders even when the app is open on another tab
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowBanner: true,
+    shouldShowList: true,
+    shouldPlaySound: true,
+    shouldSetBadge: false,
+  }),
+});
+
+export async function ensurePermissionsAndChannel(): Promise<boolean> {
+  try {
+    if (Platform.OS === 'android') {
+      await Notifications.setNotificationChannelAsync(CHECK_IN_CHANNEL_ID, {
+        name: 'Future self check-ins',
+        importance: Notifications.AndroidImportance.HIGH,
+      });
+      await Notifications.setNotificationChannelAsync(REMINDER_CHANNEL_ID, {
+        name: 'Deadline reminders',
+        importance: Notifications.AndroidImportance.HIGH,
+      });
+    }
+
+    const current = await Notifications.getPermissionsAsync();
+    if (current.granted) return true;
+    if (!current.canAskAgain) return false;
+
+    const requested = await Notifications.requestPermissionsAsync();
+    return requested.granted;
+  } catch (error) {
+    console.error('Error setting up notifications:', error);
+    return false;
+  }
+}
+
+export interface LocalNotification {
+  id: string;
+  title: string;
+  body: string;
+  data: Record<string, unknown>;
+  categoryIdentifier?: string;
+}
+
+export async function scheduleLocalNotification(notification: LocalNotification, at: number, channelId = CHECK_IN_CHANNEL_ID) {
+  try {
+    await Notifications.scheduleNotificationAsync({
+      identifier: notification.id,
+      content: {
+        title: notification.title,
+        body: notification.body,
+        data: notification.data,
+        categoryIdentifier: notification.categoryIdentifier,
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: new Date(at),
+        channelId,
+      },
+    });
+  } catch (error) {
+    console.error('Error scheduling notification:', error);
+  }
+}
+
+export async function cancelLocalNotification(id: string) {
+  try {
+    await Notifications.cancelScheduledNotificationAsync(id);
+  } catch (error) {
+    console.error('Error cancelling notification:', error);
+  }
+}
@@ -0,0 +1,95 @@
+import { CheckInPayload, CheckInScheduler, CheckInTarget, AppStateStatus } from './checkInScheduler';
+import { cancelLocalNotification, scheduleLocalNotification } from './notifications';
+import { readSetting, writeSetting } from './storage';
+
+// Same default as the web app's checkInIntervalHours
+const DEFAULT_INTERVAL_HOURS = 1;
+
+type CheckInNavigator = (payload: CheckInPayload) => void;
+
+let navigator: CheckInNavigator | null = null;
+
+const scheduler = new CheckInScheduler({
+  intervalHours: DEFAULT_INTERVAL_HOURS,
+  delivery: {
+    schedule: (payload, at) => scheduleLocalNotification(
+      { id: payload.id, title: payload.title, body: payload.body, data: { ...payload } },
+      at
+    ),
+    cancel: payload => cancelLocalNotification(payload.id),
+  },
+  onOpen: payload => navigator?.(payload),
+});
+
+async function loadSettings() {
+  try {
+    // This device's own settings blob (AsyncStorage, not the web app's
+    // localStorage). The values are written by setIntervalHours and
+    // setEnabled below; until the Settings screen calls them, the defaults apply.
+    const [interval, enabled] = await Promise.all([
+      readSetting('checkInIntervalHours', DEFAULT_INTERVAL_HOURS),
+      readSetting('notificationsEnabled', true),
+    ]);
+    scheduler.setIntervalHours(interval);
+    scheduler.setEnabled(enabled);
+  } catch (error) {
+    console.error('Error loading check-in settings:', error);
+  }
+}
+
+// Thin app-facing wrapper around the scheduler: wires in Expo delivery,
+// persisted settings and navigation for tapped check-ins.
+export const proactiveCheckInManager = {
+  setAppState(state: AppStateStatus) {
+    scheduler.setAppState(state);
+  },
+
+  handleNotificationResponse(data: unknown) {
+    scheduler.handleNotificationResponse(data);
+  },
+
+  async setLoginState(loggedIn: boolean) {
+    if (loggedIn) await loadSettings();
+    scheduler.setLoginState(loggedIn);
+  },
+
+  onCentralHubActive() {
+    scheduler.onCentralHubActive();
+  },
+
+  onCentralHubInactive() {
+    scheduler.onCentralHubInactive();
+  },
+
+  // Applied straight away and saved for the next launch
+  async setIntervalHours(hours: number) {
+    scheduler.setIntervalHours(hours);
+    try {
+      await writeSetting('checkInIntervalHours', hours);
+    } catch (error) {
+      console.error('Error saving check-in interval:', error);
+    }
+  },
+
+  async setEnabled(enabled: boolean) {
+    scheduler.setEnabled(enabled);
+    try {
+      await writeSetting('notificationsEnabled', enabled);
+    } catch (error) {
+      console.error('Error saving check-in setting:', error);
+    }
+  },
+
+  setTargets(targets: CheckInTarget[]) {
+    scheduler.setTargets(targets);
+  },
+
+  // Routes a tapped check-in to its chat; set once navigation is ready
+  setNavigator(next: CheckInNavigator | null) {
+    navigator = next;
+  },
+
+  stop() {
+    scheduler.stop();
+  },
+};
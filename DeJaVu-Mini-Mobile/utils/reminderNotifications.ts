@@ -0,0 +1,181 @@
+import * as Notifications from 'expo-notifications';
+import { cancelLocalNotification, REMINDER_CHANNEL_ID, scheduleLocalNotification } from './notifications';
+import { readJSON, readSetting, subscribeToStorage, SETTINGS_KEY, writeJSON } from './storage';
+import { Goal, IndividualGoal } from '../../src/types/Goal';
+import {
+  computeReminders,
+  DEFAULT_REMINDER_LEAD_MINUTES,
+  EMPTY_REMINDER_STATE,
+  markReminderDelivered,
+  pruneReminderState,
+  Reminder,
+  ReminderState,
+  SNOOZE_MINUTES,
+} from '../../src/utils/reminders';
+
+// Expo delivery for deadline reminders. Reminders are planned by the shared
+// reminder core and handed over here to become OS-scheduled notifications,
+// so they fire even while the app is closed.
+
+export const REMINDER_CATEGORY_ID = 'deadline-reminder';
+export const SNOOZE_ACTION_ID = 'snooze';
+
+// Saved under the same keys as the web app's goal, category and reminder stores
+const INDIVIDUAL_GOALS_KEY = 'dejavu-individual-goals';
+const CATEGORIES_KEY = 'dejavu-lab-goals';
+const REMINDER_STATE_KEY = 'dejavu-reminder-state';
+
+function notificationId(reminder: Pick<Reminder, 'key'>) {
+  return `reminder-${reminder.key}`;
+}
+
+function formatDue(deadline: Date) {
+  return `Due at ${deadline.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}`;
+}
+
+export async function ensureReminderCategory() {
+  try {
+    await Notifications.setNotificationCategoryAsync(REMINDER_CATEGORY_ID, [
+      {
+        identifier: SNOOZE_ACTION_ID,
+        buttonTitle: `Snooze ${SNOOZE_MINUTES} min`,
+        options: { opensAppToForeground: false },
+      },
+    ]);
+  } catch (error) {
+    console.error('Error registering reminder actions:', error);
+  }
+}
+
+function schedule(reminder: Reminder, at: number) {
+  return scheduleLocalNotification(
+    {
+      id: notificationId(reminder),
+      title: reminder.title,
+      body: formatDue(reminder.deadline),
+      categoryIdentifier: REMINDER_CATEGORY_ID,
+      data: {
+        type: REMINDER_CATEGORY_ID,
+        key: reminder.key,
+        goalId: reminder.goalId,
+        categoryId: reminder.categoryId,
+        title: reminder.title,
+        deadline: reminder.deadline.getTime(),
+      },
+    },
+    at,
+    REMINDER_CHANNEL_ID
+  );
+}
+
+// Makes the OS schedule match `reminders`: drops reminders for goals that were
+// completed, deleted or re-dated and schedules the new ones. Notifications for
+// the `keep` keys are left alone. Returns false if the schedule couldn't be
+// updated.
+export async function syncReminderNotifications(reminders: Reminder[], keep: string[] = []) {
+  try {
+    const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+    const wanted = new Map(reminders.map(reminder => [notificationId(reminder), reminder]));
+    const kept = new Set(keep.map(key => notificationId({ key })));
+
+    const stale = scheduled.filter((request: Notifications.NotificationRequest) =>
+      request.content.data?.type === REMINDER_CATEGORY_ID && !wanted.has(request.identifier) && !kept.has(request.identifier)
+    );
+    await Promise.all(stale.map((request: Notifications.NotificationRequest) => cancelLocalNotification(request.identifier)));
+
+    const existing = new Set(scheduled.map((request: Notifications.NotificationRequest) => request.identifier));
+    await Promise.all(
+      reminders
+        .filter(reminder => !existing.has(notificationId(reminder)))
+        .map(reminder => schedule(reminder, reminder.fireAt.getTime()))
+    );
+    return true;
+  } catch (error) {
+    console.error('Error syncing reminder notifications:', error);
+    return false;
+  }
+}
+
+function reviveDates(key: string, value: unknown) {
+  if (key === 'deadline' && typeof value === 'string') {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+  return value;
+}
+
+// Plans reminders from the saved goals and settings and hands them to the OS.
+// A reminder counts as delivered from the moment it is due to show, so one the
+// OS has already shown isn't scheduled again; turning notifications off
+// forgets the ones still waiting so they come back when turned on again.
+async function refreshReminderNotifications() {
+  const [goalsByCategory, categories, enabled, leadMinutes, saved] = await Promise.all([
+    readJSON<Record<string, IndividualGoal[]>>(INDIVIDUAL_GOALS_KEY, {}, reviveDates),
+    readJSON<Goal[]>(CATEGORIES_KEY, []),
+    readSetting('notificationsEnabled', true),
+    readSetting('reminderLeadMinutes', DEFAULT_REMINDER_LEAD_MINUTES),
+    readJSON<ReminderState>(REMINDER_STATE_KEY, EMPTY_REMINDER_STATE),
+  ]);
+
+  // Archived categories are on hold, so their deadlines stay quiet
+  const archived = new Set(categories.filter(category => category.archived).map(category => category.id));
+  const goals = Object.entries(goalsByCategory)
+    .filter(([categoryId]) => !archived.has(categoryId))
+    .flatMap(([, categoryGoals]) => categoryGoals);
+
+  const now = Date.now();
+  let state = pruneReminderState(saved, goals);
+  if (!enabled) {
+    const shown = Object.entries(state.delivered).filter(([, at]) => at <= now);
+    state = { ...state, delivered: Object.fromEntries(shown) };
+  }
+
+  const reminders = enabled ? computeReminders(goals, leadMinutes, state, now) : [];
+  const keep = enabled ? Object.keys(state.delivered) : [];
+  if (!(await syncReminderNotifications(reminders, keep))) return;
+
+  state = reminders.reduce((next, reminder) => markReminderDelivered(next, reminder.key, reminder.fireAt.getTime()), state);
+  await writeJSON(REMINDER_STATE_KEY, state);
+}
+
+// Re-plans reminders now and whenever goals, categories or settings are
+// saved; returns a function that stops watching. Call after initStorage().
+export function watchReminderNotifications() {
+  // One refresh at a time, so two quick saves can't schedule a reminder twice
+  let pending = Promise.resolve();
+  const refresh = () => {
+    pending = pending
+      .then(refreshReminderNotifications)
+      .catch(error => console.error('Error refreshing reminder notifications:', error));
+  };
+
+  refresh();
+  return subscribeToStorage(key => {
+    if (key === INDIVIDUAL_GOALS_KEY || key === CATEGORIES_KEY || key === SETTINGS_KEY) refresh();
+  });
+}
+
+// Handles taps on reminders; returns false for other notifications.
+export async function handleReminderResponse(response: Notifications.NotificationResponse) {
+  const data = response.notification.request.content.data;
+  if (data?.type !== REMINDER_CATEGORY_ID) return false;
+
+  if (response.actionIdentifier === SNOOZE_ACTION_ID) {
+    const deadline = Number(data.deadline);
+    const at = Math.min(Date.now() + SNOOZE_MINUTES * 60 * 1000, deadline);
+    if (at > Date.now()) {
+      await schedule(
+        {
+          key: String(data.key),
+          goalId: String(data.goalId),
+          categoryId: String(data.categoryId),
+          title: String(data.title),
+          deadline: new Date(deadline),
+          fireAt: new Date(at),
+        },
+        at
+      );
+    }
+  }
+  return true;
+}
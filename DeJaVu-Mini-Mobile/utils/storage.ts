@@ -0,0 +1,115 @@
+import { migrateStorage, readStoredJSON, StorageAdapter, StorageMigration } from '../../src/utils/storageSchema';
+
+// AsyncStorage is asynchronous, the schema runner is not: everything is read
+// into memory once at startup and writes go through to AsyncStorage.
+
+export interface AsyncKeyValueStore {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+  getAllKeys(): Promise<readonly string[]>;
+}
+
+export const SETTINGS_KEY = 'dejavu-settings';
+export const SETTINGS_VERSION = 1;
+
+// Ordered upgrades for data saved by older builds of the mobile app.
+export const MOBILE_STORAGE_MIGRATIONS: StorageMigration[] = [
+  {
+    version: 1,
+    description: 'Move the loose dark_mode flag into the versioned settings the web app uses',
+    up: ({ read, write, remove }) => {
+      const darkMode = read('dark_mode');
+      const existing = read(SETTINGS_KEY) as { settings?: Record<string, unknown> } | undefined;
+      if (typeof darkMode === 'boolean') {
+        write(SETTINGS_KEY, { version: SETTINGS_VERSION, settings: { ...existing?.settings, darkMode } });
+      }
+      remove('dark_mode');
+    },
+  },
+];
+
+type StorageListener = (key: string) => void;
+
+const listeners = new Set<StorageListener>();
+
+// Called with the key of every saved or removed value
+export function subscribeToStorage(listener: StorageListener) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+async function createAsyncStorageAdapter(store: AsyncKeyValueStore): Promise<StorageAdapter> {
+  const cache = new Map<string, string>();
+  const keys = await store.getAllKeys();
+  const values = await Promise.all(keys.map(key => store.getItem(key)));
+  keys.forEach((key, i) => {
+    const value = values[i];
+    if (value !== null) cache.set(key, value);
+  });
+
+  const persist = (action: Promise<void>, key: string) => {
+    action.catch(error => console.error(`Error saving "${key}":`, error));
+  };
+
+  return {
+    getItem: key => cache.get(key) ?? null,
+    setItem: (key, value) => {
+      cache.set(key, value);
+      persist(store.setItem(key, value), key);
+      listeners.forEach(listener => listener(key));
+    },
+    removeItem: key => {
+      cache.delete(key);
+      persist(store.removeItem(key), key);
+      listeners.forEach(listener => listener(key));
+    },
+    keys: () => [...cache.keys()],
+  };
+}
+
+let ready: Promise<StorageAdapter> | null = null;
+
+// Loads and migrates saved data; call before the first read. Later calls
+// share the first one's result.
+export function initStorage(store: AsyncKeyValueStore): Promise<StorageAdapter> {
+  if (!ready) {
+    ready = createAsyncStorageAdapter(store).then(adapter => {
+      migrateStorage(adapter, MOBILE_STORAGE_MIGRATIONS);
+      return adapter;
+    });
+  }
+  return ready;
+}
+
+async function getAdapter() {
+  if (!ready) throw new Error('initStorage() must be called before reading saved data.');
+  return ready;
+}
+
+export async function readJSON<T>(key: string, fallback: T, reviver?: (key: string, value: unknown) => unknown): Promise<T> {
+  const value = readStoredJSON(await getAdapter(), key, reviver);
+  return value === undefined ? fallback : value as T;
+}
+
+export async function writeJSON(key: string, value: unknown) {
+  (await getAdapter()).setItem(key, JSON.stringify(value));
+}
+
+interface StoredSettings {
+  version: number;
+  settings: Record<string, unknown>;
+}
+
+export async function readSetting<T>(name: string, fallback: T): Promise<T> {
+  const stored = await readJSON<StoredSettings | null>(SETTINGS_KEY, null);
+  const value = stored?.settings?.[name];
+  return value === undefined ? fallback : value as T;
+}
+
+export async function writeSetting(name: string, value: unknown) {
+  const stored = await readJSON<StoredSettings | null>(SETTINGS_KEY, null);
+  await writeJSON(SETTINGS_KEY, { version: SETTINGS_VERSION, settings: { ...stored?.settings, [name]: value } });
+}
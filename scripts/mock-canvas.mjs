@@ -0,0 +1,135 @@
+// Local fake of the parts of the Canvas LMS API the app uses, serving
+// recorded-style fixtures. Handy for exercising Canvas sign-in and sync:
+//
+//   npm run mock-canvas
+//   VITE_CANVAS_BASE_URL=http://localhost:4020
+//   VITE_CANVAS_CLIENT_ID=fake-canvas        # sign in through the fake...
+//   VITE_CANVAS_ACCESS_TOKEN=fake-token      # ...or skip sign-in entirely
+//
+// POST /__fake/submit/:assignmentId marks an assignment submitted (and bumps
+// its updated_at) so incremental re-sync can be observed.
+
+import { createServer } from 'node:http';
+import { randomBytes } from 'node:crypto';
+
+const PORT = Number(process.env.MOCK_CANVAS_PORT ?? 4020);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const now = Date.now();
+const iso = offsetDays => new Date(now + offsetDays * DAY_MS).toISOString();
+const unsubmitted = () => ({ workflow_state: 'unsubmitted', submitted_at: null, excused: null });
+
+const courses = [
+  { id: 201, name: 'CSE201 Software Engineering', course_code: 'CSE201', workflow_state: 'available' },
+  { id: 310, name: 'MATH310 Linear Algebra', course_code: 'MATH310', workflow_state: 'available' },
+];
+
+const assignments = [
+  { id: 9001, course_id: 201, name: 'Project 4: Requirements', description: '<p>Write the <strong>requirements</strong> document.</p>', due_at: iso(-3), updated_at: iso(-10), submission: { workflow_state: 'graded', submitted_at: iso(-4), excused: null } },
+  { id: 9002, course_id: 201, name: 'Project 4: Design Review', description: '<p>Present the architecture &amp; data model.</p>', due_at: iso(4), updated_at: iso(-8), submission: unsubmitted() },
+  { id: 9003, course_id: 201, name: 'Project 4: Final Submission', description: null, due_at: iso(14), updated_at: iso(-8), submission: unsubmitted() },
+  { id: 9101, course_id: 310, name: 'Problem Set 5', description: '<p>Eigenvalues, sections 5.1&ndash;5.3.</p>', due_at: iso(2), updated_at: iso(-6), submission: unsubmitted() },
+  { id: 9102, course_id: 310, name: 'Reading: Chapter 6', description: null, due_at: null, updated_at: iso(-6), submission: unsubmitted() },
+];
+
+const codes = new Map();
+const tokens = new Set(['fake-token']);
+const user = { id: 4242, name: 'Canvas Student' };
+
+function send(res, status, body, headers = {}) {
+  res.writeHead(status, {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type, Accept',
+    'Access-Control-Expose-Headers': 'Link',
+    'Content-Type': 'application/json',
+    ...headers,
+  });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+}
+
+// Canvas-style pagination with a Link header
+function sendPage(res, url, items) {
+  const perPage = Math.max(1, Number(url.searchParams.get('per_page') ?? 10));
+  const page = Math.max(1, Number(url.searchParams.get('page') ?? 1));
+  const slice = items.slice((page - 1) * perPage, page * perPage);
+  const headers = {};
+  if (page * perPage < items.length) {
+    const next = new URL(url);
+    next.searchParams.set('page', String(page + 1));
+    headers.Link = `<${next}>; rel="next"`;
+  }
+  send(res, 200, slice, headers);
+}
+
+async function readForm(req) {
+  let raw = '';
+  for await (const chunk of req) raw += chunk;
+  return new URLSearchParams(raw);
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  if (req.method === 'OPTIONS') return send(res, 204);
+
+  if (req.method === 'GET' && url.pathname === '/login/oauth2/auth') {
+    const target = new URL(url.searchParams.get('redirect_uri'));
+    const code = randomBytes(16).toString('hex');
+    codes.set(code, url.searchParams.get('redirect_uri'));
+    target.searchParams.set('code', code);
+    if (url.searchParams.get('state')) target.searchParams.set('state', url.searchParams.get('state'));
+    res.writeHead(302, { Location: target.toString() });
+    return res.end();
+  }
+
+  if (req.method === 'POST' && url.pathname === '/login/oauth2/token') {
+    const form = await readForm(req);
+    const grant = form.get('grant_type');
+    if (grant === 'authorization_code' && codes.get(form.get('code')) !== form.get('redirect_uri')) {
+      return send(res, 400, { error: 'invalid_grant' });
+    }
+    if (grant !== 'authorization_code' && grant !== 'refresh_token') {
+      return send(res, 400, { error: 'unsupported_grant_type' });
+    }
+    codes.delete(form.get('code'));
+    const access = randomBytes(16).toString('hex');
+    tokens.add(access);
+    return send(res, 200, {
+      access_token: access,
+      token_type: 'Bearer',
+      expires_in: 3600,
+      refresh_token: randomBytes(16).toString('hex'),
+      user,
+    });
+  }
+
+  const submit = url.pathname.match(/^\/__fake\/submit\/(\d+)$/);
+  if (req.method === 'POST' && submit) {
+    const assignment = assignments.find(a => a.id === Number(submit[1]));
+    if (!assignment) return send(res, 404, { errors: [{ message: 'not found' }] });
+    assignment.submission = { workflow_state: 'submitted', submitted_at: new Date().toISOString(), excused: null };
+    assignment.updated_at = new Date().toISOString();
+    return send(res, 200, assignment);
+  }
+
+  if (url.pathname.startsWith('/api/v1/')) {
+    const bearer = (req.headers.authorization ?? '').replace(/^Bearer /, '');
+    if (!tokens.has(bearer)) return send(res, 401, { errors: [{ message: 'Invalid access token.' }] });
+
+    if (url.pathname === '/api/v1/courses') return sendPage(res, url, courses);
+
+    const match = url.pathname.match(/^\/api\/v1\/courses\/(\d+)\/assignments$/);
+    if (match) {
+      const include = url.searchParams.getAll('include[]');
+      const items = assignments
+        .filter(a => a.course_id === Number(match[1]))
+        .map(({ submission, ...rest }) => (include.includes('submission') ? { ...rest, submission } : rest));
+      return sendPage(res, url, items);
+    }
+  }
+
+  send(res, 404, { errors: [{ message: 'The specified resource does not exist.' }] });
+});
+
+server.listen(PORT, () => {
+  console.log(`Fake Canvas on http://localhost:${PORT}`);
+});
@@ -0,0 +1,122 @@
+// Local OAuth 2.0 identity provider for trying the sign-in flow without real
+// credentials. It approves every request, enforces PKCE (S256) and issues
+// short-lived access tokens so refresh can be exercised too.
+//
+//   npm run mock-idp            # then set VITE_AUTH_MOCK_URL=http://localhost:4010
+
+import { createServer } from 'node:http';
+import { createHash, randomBytes } from 'node:crypto';
+
+const PORT = Number(process.env.MOCK_IDP_PORT ?? 4010);
+const ACCESS_TOKEN_TTL_SECONDS = Number(process.env.MOCK_IDP_TOKEN_TTL ?? 300);
+
+const codes = new Map();
+const accessTokens = new Map();
+const refreshTokens = new Map();
+
+const token = () => randomBytes(24).toString('base64url');
+
+function userFor(hint) {
+  const id = hint || 'test-user';
+  return { sub: id, name: id === 'test-user' ? 'Test User' : id, email: `${id}@example.test` };
+}
+
+function send(res, status, body, headers = {}) {
+  res.writeHead(status, {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type, Accept',
+    'Content-Type': 'application/json',
+    ...headers,
+  });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+}
+
+function issueTokens(user) {
+  const access = token();
+  const refresh = token();
+  accessTokens.set(access, { user, expiresAt: Date.now() + ACCESS_TOKEN_TTL_SECONDS * 1000 });
+  refreshTokens.set(refresh, user);
+  return {
+    access_token: access,
+    token_type: 'Bearer',
+    expires_in: ACCESS_TOKEN_TTL_SECONDS,
+    refresh_token: refresh,
+  };
+}
+
+async function readForm(req) {
+  let raw = '';
+  for await (const chunk of req) raw += chunk;
+  return new URLSearchParams(raw);
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+
+  if (req.method === 'OPTIONS') return send(res, 204);
+
+  if (req.method === 'GET' && url.pathname === '/authorize') {
+    const params = url.searchParams;
+    const redirectUri = params.get('redirect_uri');
+    if (!redirectUri || params.get('response_type') !== 'code') {
+      return send(res, 400, { error: 'invalid_request' });
+    }
+    const target = new URL(redirectUri);
+    if (params.get('code_challenge_method') !== 'S256' || !params.get('code_challenge')) {
+      target.searchParams.set('error', 'invalid_request');
+      target.searchParams.set('error_description', 'PKCE with S256 is required');
+    } else {
+      const code = token();
+      codes.set(code, {
+        clientId: params.get('client_id'),
+        redirectUri,
+        challenge: params.get('code_challenge'),
+        user: userFor(params.get('login_hint')),
+      });
+      target.searchParams.set('code', code);
+    }
+    if (params.get('state')) target.searchParams.set('state', params.get('state'));
+    res.writeHead(302, { Location: target.toString() });
+    return res.end();
+  }
+
+  if (req.method === 'POST' && url.pathname === '/token') {
+    const form = await readForm(req);
+
+    if (form.get('grant_type') === 'authorization_code') {
+      const grant = codes.get(form.get('code'));
+      codes.delete(form.get('code'));
+      const verifier = form.get('code_verifier') ?? '';
+      const challenge = createHash('sha256').update(verifier).digest('base64url');
+      if (!grant || grant.redirectUri !== form.get('redirect_uri') || grant.clientId !== form.get('client_id')) {
+        return send(res, 400, { error: 'invalid_grant' });
+      }
+      if (grant.challenge !== challenge) {
+        return send(res, 400, { error: 'invalid_grant', error_description: 'PKCE verification failed' });
+      }
+      return send(res, 200, issueTokens(grant.user));
+    }
+
+    if (form.get('grant_type') === 'refresh_token') {
+      const user = refreshTokens.get(form.get('refresh_token'));
+      refreshTokens.delete(form.get('refresh_token'));
+      if (!user) return send(res, 400, { error: 'invalid_grant' });
+      return send(res, 200, issueTokens(user));
+    }
+
+    return send(res, 400, { error: 'unsupported_grant_type' });
+  }
+
+  if (req.method === 'GET' && url.pathname === '/userinfo') {
+    const access = (req.headers.authorization ?? '').replace(/^Bearer /, '');
+    const entry = accessTokens.get(access);
+    if (!entry || entry.expiresAt < Date.now()) return send(res, 401, { error: 'invalid_token' });
+    return send(res, 200, entry.user);
+  }
+
+  send(res, 404, { error: 'not_found' });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock identity provider on http://localhost:${PORT}`);
+});
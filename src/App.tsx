@@ -1,91 +1,137 @@
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { LoginScreen } from "./components/LoginScreen";
 import { ChatScreen } from "./components/ChatScreen";
 import { LabScreen } from "./components/LabScreen";
 import { SettingsScreen } from "./components/SettingsScreen";
 import { GoalDetailScreen } from "./components/GoalDetailScreen";
 import { CategoryChatPanel } from "./components/CategoryChatPanel";
+import { PersonaScreen } from "./components/PersonaScreen";
+import { Toaster } from "./components/ui/sonner";
 import { Home, FlaskConical, Settings } from "lucide-react";
 import { Goal } from "./types/Goal";
-
-type Screen = "login" | "chat" | "lab" | "settings" | "goalDetail";
+import { getPersona, hasSkippedPersonaOnboarding } from "./utils/personaStore";
+import { useReminders } from "./hooks/useReminders";
+import { useUndoShortcuts } from "./hooks/useHistory";
+import { useSettings } from "./hooks/useSettings";
+import { useRoute } from "./hooks/useRoute";
+import { useCategory } from "./hooks/useCategories";
+import { navigate } from "./utils/router";
+import { useAuth } from "./hooks/useAuth";
+import { beginSignIn, signInOffline, signOut } from "./utils/authService";
+import { AuthProviderId } from "./types/Auth";
+import { syncCanvas } from "./utils/canvasSync";
+import { requestNotificationPermission } from "./utils/browserNotifications";
 
 export default function App() {
-  const [currentScreen, setCurrentScreen] = useState<Screen>("login");
-  const [isLoggedIn, setIsLoggedIn] = useState(false);
-  const [isDarkMode, setIsDarkMode] = useState(false);
-  const [selectedGoal, setSelectedGoal] = useState<Goal | null>(null);
-  const [activeGoalContext, setActiveGoalContext] = useState<Goal | null>(null);
-  const [showGoalChat, setShowGoalChat] = useState(false);
-
-  const handleLogin = () => {
-    setIsLoggedIn(true);
-    setCurrentScreen("chat");
+  const route = useRoute();
+  const auth = useAuth();
+  const isLoggedIn = auth.status === "signedIn";
+  const [isOnboarding, setIsOnboarding] = useState(false);
+  const [personaCheckedFor, setPersonaCheckedFor] = useState<string | null>(null);
+  // The category chat the Home tab returns to, if one was opened
+  const [activeGoalContextId, setActiveGoalContextId] = useState<string | null>(null);
+  const [{ darkMode }] = useSettings();
+
+  // Restored from the URL, so a refresh or shared link keeps the goal
+  const routeCategoryId = route.name === "goal" || route.name === "categoryChat" ? route.categoryId : undefined;
+  const routeGoal = useCategory(routeCategoryId);
+
+  useEffect(() => {
+    document.documentElement.classList.toggle("dark", darkMode);
+  }, [darkMode]);
+
+  // Signing in with Canvas pulls in courses and assignments straight away
+  const isCanvasSession = auth.session?.provider === "canvas";
+  useEffect(() => {
+    if (isCanvasSession) void syncCanvas().catch(() => undefined);
+  }, [isCanvasSession]);
+
+  // Deadline reminders deep-link to the category the goal belongs to
+  useReminders(isLoggedIn, reminder => {
+    navigate({ name: "goal", categoryId: reminder.categoryId });
+  });
+
+  useUndoShortcuts();
+
+  // First run for each user: describe the future self before the first chat
+  const userKey = auth.session ? `${auth.session.provider}:${auth.session.user.id}` : null;
+  if (userKey && userKey !== personaCheckedFor) {
+    setPersonaCheckedFor(userKey);
+    setIsOnboarding(!getPersona() && !hasSkippedPersonaOnboarding());
+  }
+
+  const handleLogin = async (provider: AuthProviderId) => {
+    // Asked from the sign-in click, since browsers want a user gesture
+    await requestNotificationPermission();
+    if (provider === "offline") {
+      signInOffline();
+    } else {
+      await beginSignIn(provider);
+    }
   };
 
-  const toggleDarkMode = () => {
-    setIsDarkMode(prev => {
-      const newMode = !prev;
-      if (newMode) {
-        document.documentElement.classList.add("dark");
-      } else {
-        document.documentElement.classList.remove("dark");
-      }
-      return newMode;
-    });
+  const handleSignOut = () => {
+    setActiveGoalContextId(null);
+    setPersonaCheckedFor(null);
+    signOut();
   };
 
   const handleGoalSelect = (goal: Goal) => {
-    setSelectedGoal(goal);
-    setCurrentScreen("goalDetail");
+    navigate({ name: "goal", categoryId: goal.id });
   };
 
   const handleBackFromGoalDetail = () => {
-    setSelectedGoal(null);
-    setCurrentScreen("lab");
+    navigate({ name: "lab" });
   };
 
   const handleGoalChatOpen = (goal: Goal) => {
-    setActiveGoalContext(goal);
-    setShowGoalChat(true);
-    setCurrentScreen("chat");
+    setActiveGoalContextId(goal.id);
+    navigate({ name: "categoryChat", categoryId: goal.id });
   };
 
   const handleChatNavigation = () => {
-    if (activeGoalContext) {
-      setShowGoalChat(true);
-      setCurrentScreen("chat");
+    if (activeGoalContextId) {
+      navigate({ name: "categoryChat", categoryId: activeGoalContextId });
     } else {
-      setShowGoalChat(false);
-      setCurrentScreen("chat");
+      navigate({ name: "chat" });
     }
   };
 
   if (!isLoggedIn) {
-    return <LoginScreen onLogin={handleLogin} />;
+    return (
+      <LoginScreen
+        onLogin={handleLogin}
+        error={auth.error}
+        isRestoring={auth.status === "restoring"}
+      />
+    );
+  }
+
+  if (isOnboarding) {
+    return <PersonaScreen isOnboarding onDone={() => setIsOnboarding(false)} />;
   }
 
   const renderScreen = () => {
-    switch (currentScreen) {
+    switch (route.name) {
       case "chat":
-        return showGoalChat && activeGoalContext ? (
+        return <ChatScreen />;
+      case "categoryChat":
+        return (
           <div className="relative h-full">
             <ChatScreen />
             <CategoryChatPanel 
               isOpen={true}
-              onClose={() => setShowGoalChat(false)}
-              goal={activeGoalContext}
+              onClose={() => navigate({ name: "chat" })}
+              goal={routeGoal}
             />
           </div>
-        ) : (
-          <ChatScreen />
         );
       case "lab":
         return <LabScreen onGoalSelect={handleGoalSelect} onGoalChatOpen={handleGoalChatOpen} />;
-      case "goalDetail":
-        return selectedGoal ? (
+      case "goal":
+        return routeGoal ? (
           <GoalDetailScreen 
-            goal={selectedGoal} 
+            goal={routeGoal} 
             onBack={handleBackFromGoalDetail}
           />
         ) : (
@@ -94,15 +140,19 @@ export default function App() {
       case "settings":
         return (
           <SettingsScreen
-            isDarkMode={isDarkMode}
-            onToggleDarkMode={toggleDarkMode}
+            onEditPersona={() => navigate({ name: "persona" })}
+            onSignOut={handleSignOut}
           />
         );
-      default:
-        return <LabScreen onGoalSelect={handleGoalSelect} onGoalChatOpen={handleGoalChatOpen} />;
+      case "persona":
+        return <PersonaScreen onDone={() => navigate({ name: "settings" })} />;
     }
   };
 
+  const isChatTab = route.name === "chat" || route.name === "categoryChat";
+  const isLabTab = route.name === "lab" || route.name === "goal";
+  const isSettingsTab = route.name === "settings" || route.name === "persona";
+
   return (
     <div className="min-h-screen bg-background max-w-sm mx-auto">
       {/* Status Bar */}
@@ -115,6 +165,8 @@ export default function App() {
         </div>
       </div>
 
+      <Toaster position="top-center" />
+
       {/* Main Content */}
       <div className="flex-1 pb-20">{renderScreen()}</div>
 
@@ -124,7 +176,7 @@ export default function App() {
           <button
             onClick={handleChatNavigation}
             className={`flex flex-col items-center p-2 ${
-              currentScreen === "chat"
+              isChatTab
                 ? "text-primary"
                 : "text-muted-foreground"
             }`}
@@ -133,9 +185,9 @@ export default function App() {
             <span className="text-xs mt-1">Home</span>
           </button>
           <button
-            onClick={() => setCurrentScreen("lab")}
+            onClick={() => navigate({ name: "lab" })}
             className={`flex flex-col items-center p-2 ${
-              currentScreen === "lab"
+              isLabTab
                 ? "text-primary"
                 : "text-muted-foreground"
             }`}
@@ -144,9 +196,9 @@ export default function App() {
             <span className="text-xs mt-1">Lab</span>
           </button>
           <button
-            onClick={() => setCurrentScreen("settings")}
+            onClick={() => navigate({ name: "settings" })}
             className={`flex flex-col items-center p-2 ${
-              currentScreen === "settings"
+              isSettingsTab
                 ? "text-primary"
                 : "text-muted-foreground"
             }`}
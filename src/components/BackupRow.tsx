@@ -0,0 +1,95 @@
+import React, { useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { Download, Upload } from 'lucide-react';
+import { Button } from './ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { Backup, BackupError, createBackup, parseBackup, restoreBackup, RestoreMode } from '../utils/backup';
+import { downloadFile } from '../utils/download';
+
+function describeBackup(backup: Backup) {
+  const goals = Object.values(backup.data.individualGoals).reduce((sum, goals) => sum + goals.length, 0);
+  const threads = Object.keys(backup.data.chatThreads).length;
+  return [
+    `${backup.data.categories.length} categories`,
+    `${goals} goals`,
+    `${threads} ${threads === 1 ? 'chat' : 'chats'}`,
+    backup.data.persona ? 'persona' : null,
+  ].filter(Boolean).join(', ');
+}
+
+export function BackupRow() {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [pending, setPending] = useState<Backup | null>(null);
+
+  const handleDownload = () => {
+    const backup = createBackup();
+    downloadFile(`dejavu-backup-${backup.exportedAt.slice(0, 10)}.json`, JSON.stringify(backup, null, 2), 'application/json');
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      setPending(parseBackup(await file.text()));
+    } catch (e) {
+      toast.error(e instanceof BackupError ? e.message : 'Could not read that backup file.');
+    } finally {
+      if (fileInput.current) fileInput.current.value = '';
+    }
+  };
+
+  const handleRestore = (mode: RestoreMode) => {
+    if (!pending) return;
+    restoreBackup(pending, mode);
+    setPending(null);
+    toast(mode === 'replace' ? 'Backup restored' : 'Backup merged');
+  };
+
+  return (
+    <div>
+      <div>
+        <h3 className="font-medium">Backup</h3>
+        <p className="text-sm text-muted-foreground">Goals, chats, persona and settings in one file</p>
+      </div>
+
+      <div className="flex gap-2 mt-3">
+        <Button variant="outline" size="sm" onClick={handleDownload} className="flex items-center gap-1">
+          <Download className="w-4 h-4" />
+          Download
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => fileInput.current?.click()} className="flex items-center gap-1">
+          <Upload className="w-4 h-4" />
+          Restore
+        </Button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => void handleFile(e.target.files?.[0])}
+        />
+      </div>
+
+      <Dialog open={pending !== null} onOpenChange={(open) => !open && setPending(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Restore backup</DialogTitle>
+            <DialogDescription>
+              {pending && `From ${new Date(pending.exportedAt).toLocaleString()}: ${describeBackup(pending)}.`}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2 text-sm text-muted-foreground">
+            <p><span className="font-medium text-foreground">Merge</span> adds anything missing here and keeps your current persona and settings.</p>
+            <p><span className="font-medium text-foreground">Replace</span> swaps everything on this device for the backup.</p>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPending(null)}>Cancel</Button>
+            <Button variant="outline" onClick={() => handleRestore('merge')}>Merge</Button>
+            <Button variant="destructive" onClick={() => handleRestore('replace')}>Replace</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import React, { useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { Download, Upload } from 'lucide-react';
+import { Switch } from './ui/switch';
+import { Button } from './ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { IndividualGoal } from '../types/Goal';
+import {
+  applyCalendarImport,
+  CalendarImportPlan,
+  CalendarImportSummary,
+  ConflictChoice,
+  exportCalendar,
+  prepareCalendarImport,
+} from '../utils/calendarSync';
+import { ICalParseError } from '../utils/ical';
+import { downloadFile } from '../utils/download';
+
+interface CalendarSyncRowProps {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+}
+
+function describeSummary(summary: CalendarImportSummary) {
+  const parts = [
+    summary.added > 0 && `${summary.added} added`,
+    summary.updated > 0 && `${summary.updated} updated`,
+    summary.keptLocal > 0 && `${summary.keptLocal} kept as is`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : 'Everything was already up to date';
+}
+
+function describeGoal(goal: IndividualGoal) {
+  const due = goal.deadline ? goal.deadline.toLocaleString() : 'No deadline';
+  return `${due}${goal.completed ? ' · Completed' : ''}`;
+}
+
+export function CalendarSyncRow({ enabled, onEnabledChange }: CalendarSyncRowProps) {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [pending, setPending] = useState<CalendarImportPlan | null>(null);
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>({});
+
+  const handleExport = () => {
+    const { ics, count } = exportCalendar();
+    downloadFile('dejavu-goals.ics', ics, 'text/calendar');
+    toast(`Exported ${count} ${count === 1 ? 'goal' : 'goals'}`);
+  };
+
+  const finishImport = (plan: CalendarImportPlan, picked: Record<string, ConflictChoice>) => {
+    const summary = applyCalendarImport(plan, picked);
+    setPending(null);
+    toast('Calendar imported', { description: describeSummary(summary) });
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const plan = prepareCalendarImport(await file.text());
+      if (plan.conflicts.length === 0) {
+        finishImport(plan, {});
+      } else {
+        setChoices({});
+        setPending(plan);
+      }
+    } catch (e) {
+      toast.error(e instanceof ICalParseError ? e.message : 'Could not read that calendar file.');
+    } finally {
+      if (fileInput.current) fileInput.current.value = '';
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="font-medium">Calendar Sync</h3>
+          <p className="text-sm text-muted-foreground">Exchange goal deadlines with your calendar as .ics</p>
+        </div>
+        <Switch checked={enabled} onCheckedChange={onEnabledChange} />
+      </div>
+
+      {enabled && (
+        <div className="flex gap-2 mt-3">
+          <Button variant="outline" size="sm" onClick={handleExport} className="flex items-center gap-1">
+            <Download className="w-4 h-4" />
+            Export .ics
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => fileInput.current?.click()} className="flex items-center gap-1">
+            <Upload className="w-4 h-4" />
+            Import .ics
+          </Button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".ics,text/calendar"
+            className="hidden"
+            onChange={(e) => void handleFile(e.target.files?.[0])}
+          />
+        </div>
+      )}
+
+      <Dialog open={pending !== null} onOpenChange={(open) => !open && setPending(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Resolve conflicts</DialogTitle>
+            <DialogDescription>
+              These goals changed both here and in the calendar since they were last synced. Pick the version to keep.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-3 max-h-[50vh] overflow-y-auto">
+            {pending?.conflicts.map(conflict => {
+              const choice = choices[conflict.uid] ?? 'local';
+              const option = (value: ConflictChoice, label: string, goal: IndividualGoal) => (
+                <button
+                  type="button"
+                  onClick={() => setChoices(prev => ({ ...prev, [conflict.uid]: value }))}
+                  className={`flex-1 text-left rounded-lg border p-2 ${choice === value ? 'border-purple-500 bg-purple-500/10' : 'border-border'}`}
+                >
+                  <span className="block text-xs text-muted-foreground">{label}</span>
+                  <span className="block text-sm font-medium">{goal.title}</span>
+                  <span className="block text-xs text-muted-foreground">{describeGoal(goal)}</span>
+                </button>
+              );
+              return (
+                <div key={conflict.uid} className="flex gap-2">
+                  {option('local', 'Keep mine', conflict.local)}
+                  {option('incoming', 'Use calendar', conflict.incoming)}
+                </div>
+              );
+            })}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPending(null)}>Cancel</Button>
+            <Button onClick={() => pending && finishImport(pending, choices)}>Import</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
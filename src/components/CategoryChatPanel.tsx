@@ -1,16 +1,15 @@
-import React, { useState } from 'react';
+import { useState } from 'react';
 import { Sheet, SheetContent, SheetHeader, SheetTitle } from './ui/sheet';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
-import { Send, Bot, User } from 'lucide-react';
+import { Send, Bot, Square } from 'lucide-react';
+import { ChatMessageBubble } from './ChatMessageBubble';
+import { ChatStatus } from './ChatStatus';
+import { ResetConversationButton, ShowEarlierButton } from './ChatHistoryControls';
 import { Goal } from '../types/Goal';
-
-interface Message {
-  id: string;
-  content: string;
-  sender: 'user' | 'ai';
-  timestamp: Date;
-}
+import { useChat } from '../hooks/useChat';
+import { useSystemPrompt } from '../hooks/usePersona';
+import { categoryThreadId } from '../utils/chatStore';
 
 interface CategoryChatPanelProps {
   isOpen: boolean;
@@ -19,50 +18,37 @@ interface CategoryChatPanelProps {
 }
 
 export function CategoryChatPanel({ isOpen, onClose, goal }: CategoryChatPanelProps) {
-  const [messages, setMessages] = useState<Message[]>([]);
-  const [inputText, setInputText] = useState('');
+  if (!goal) return null;
 
-  // Initialize with a category-specific welcome message when goal changes
-  React.useEffect(() => {
-    if (goal && isOpen) {
-      setMessages([
-        {
-          id: '1',
-          content: `Hey! I'm here to help you with "${goal.title}". What would you like to work on in this category? I can help you break down your goals and create actionable steps.`,
-          sender: 'ai',
-          timestamp: new Date()
-        }
-      ]);
-    }
-  }, [goal, isOpen]);
+  return <CategoryChat isOpen={isOpen} onClose={onClose} goal={goal} />;
+}
 
-  const sendMessage = () => {
-    if (!inputText.trim()) return;
+function CategoryChat({ isOpen, onClose, goal }: CategoryChatPanelProps & { goal: Goal }) {
+  const systemPrompt = useSystemPrompt({ category: goal });
+  const {
+    visibleMessages,
+    hasEarlier,
+    showEarlier,
+    isResponding,
+    error,
+    sendMessage: sendChatMessage,
+    retry,
+    stop,
+    resetConversation
+  } = useChat({
+    threadId: categoryThreadId(goal.id),
+    welcomeMessage: `Hey! I'm here to help you with "${goal.title}". What would you like to work on in this category? I can help you break down your goals and create actionable steps.`,
+    systemPrompt: systemPrompt.text
+  });
+  const [inputText, setInputText] = useState('');
 
-    const newMessage: Message = {
-      id: Date.now().toString(),
-      content: inputText,
-      sender: 'user',
-      timestamp: new Date()
-    };
+  const sendMessage = () => {
+    if (!inputText.trim() || isResponding) return;
 
-    setMessages(prev => [...prev, newMessage]);
+    sendChatMessage(inputText);
     setInputText('');
-
-    // Simulate AI response
-    setTimeout(() => {
-      const aiResponse: Message = {
-        id: (Date.now() + 1).toString(),
-        content: `That's a great point about "${goal?.title}". Let me help you create some specific, actionable goals for this category. What's the most important outcome you want to achieve here?`,
-        sender: 'ai',
-        timestamp: new Date()
-      };
-      setMessages(prev => [...prev, aiResponse]);
-    }, 1000);
   };
 
-  if (!goal) return null;
-
   return (
     <Sheet open={isOpen} onOpenChange={onClose}>
       <SheetContent side="bottom" className="h-[80vh]">
@@ -71,43 +57,19 @@ export function CategoryChatPanel({ isOpen, onClose, goal }: CategoryChatPanelPr
             <div className="w-8 h-8 bg-purple-500 rounded-full flex items-center justify-center">
               <Bot className="w-4 h-4 text-white" />
             </div>
-            {goal.title} Chat
+            <span className="flex-1">{goal.title} Chat</span>
+            <ResetConversationButton onReset={resetConversation} />
           </SheetTitle>
         </SheetHeader>
         
         <div className="flex flex-col h-full mt-4">
           {/* Messages */}
           <div className="flex-1 overflow-y-auto space-y-4 mb-4">
-            {messages.map((message) => (
-              <div
-                key={message.id}
-                className={`flex gap-3 ${message.sender === 'user' ? 'flex-row-reverse' : ''}`}
-              >
-                <div className={`w-8 h-8 rounded-full flex items-center justify-center ${
-                  message.sender === 'user' 
-                    ? 'bg-blue-500' 
-                    : 'bg-purple-500'
-                }`}>
-                  {message.sender === 'user' ? (
-                    <User className="w-4 h-4 text-white" />
-                  ) : (
-                    <Bot className="w-4 h-4 text-white" />
-                  )}
-                </div>
-                <div className={`max-w-[80%] p-3 rounded-lg ${
-                  message.sender === 'user'
-                    ? 'bg-blue-500 text-white'
-                    : 'bg-card border border-border'
-                }`}>
-                  <p className="text-sm">{message.content}</p>
-                  <p className={`text-xs mt-1 ${
-                    message.sender === 'user' ? 'text-blue-100' : 'text-muted-foreground'
-                  }`}>
-                    {message.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-                  </p>
-                </div>
-              </div>
+            <ShowEarlierButton hasEarlier={hasEarlier} onShowEarlier={showEarlier} />
+            {visibleMessages.map((message) => (
+              <ChatMessageBubble key={message.id} message={message} />
             ))}
+            <ChatStatus error={error} onRetry={retry} />
           </div>
 
           {/* Input - Raised from bottom edge */}
@@ -119,9 +81,15 @@ export function CategoryChatPanel({ isOpen, onClose, goal }: CategoryChatPanelPr
               onKeyPress={(e) => e.key === 'Enter' && sendMessage()}
               className="flex-1"
             />
-            <Button onClick={sendMessage} size="icon" className="bg-purple-500 hover:bg-purple-600">
-              <Send className="w-4 h-4" />
-            </Button>
+            {isResponding ? (
+              <Button onClick={stop} size="icon" variant="outline" aria-label="Stop generating">
+                <Square className="w-4 h-4" />
+              </Button>
+            ) : (
+              <Button onClick={sendMessage} size="icon" className="bg-purple-500 hover:bg-purple-600">
+                <Send className="w-4 h-4" />
+              </Button>
+            )}
           </div>
         </div>
       </SheetContent>
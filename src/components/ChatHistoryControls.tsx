@@ -0,0 +1,74 @@
+import { useState } from 'react';
+import { RotateCcw } from 'lucide-react';
+import { Button } from './ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+
+interface ShowEarlierButtonProps {
+  hasEarlier: boolean;
+  onShowEarlier: () => void;
+}
+
+export function ShowEarlierButton({ hasEarlier, onShowEarlier }: ShowEarlierButtonProps) {
+  if (!hasEarlier) return null;
+
+  return (
+    <div className="flex justify-center">
+      <Button variant="ghost" size="sm" onClick={onShowEarlier} className="text-muted-foreground">
+        Show earlier messages
+      </Button>
+    </div>
+  );
+}
+
+interface ResetConversationButtonProps {
+  onReset: () => void;
+}
+
+// Header action that clears a stored conversation after confirmation.
+export function ResetConversationButton({ onReset }: ResetConversationButtonProps) {
+  const [isConfirming, setIsConfirming] = useState(false);
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => setIsConfirming(true)}
+        aria-label="Reset conversation"
+      >
+        <RotateCcw className="w-4 h-4" />
+      </Button>
+      <Dialog open={isConfirming} onOpenChange={setIsConfirming}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reset conversation?</DialogTitle>
+            <DialogDescription>
+              This permanently clears the messages in this chat. Your goals are not affected.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsConfirming(false)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => {
+                onReset();
+                setIsConfirming(false);
+              }}
+            >
+              Reset
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
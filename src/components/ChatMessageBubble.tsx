@@ -0,0 +1,61 @@
+import { Bot, User } from 'lucide-react';
+import { Message } from '../types/Chat';
+
+interface ChatMessageBubbleProps {
+  message: Message;
+}
+
+function TypingIndicator() {
+  return (
+    <div className="flex items-center gap-1 py-1" aria-label="Future You is typing">
+      {[0, 150, 300].map(delay => (
+        <span
+          key={delay}
+          className="w-1.5 h-1.5 bg-muted-foreground rounded-full animate-bounce"
+          style={{ animationDelay: `${delay}ms` }}
+        />
+      ))}
+    </div>
+  );
+}
+
+export function ChatMessageBubble({ message }: ChatMessageBubbleProps) {
+  const isUser = message.sender === 'user';
+  const isStreaming = message.status === 'streaming';
+
+  return (
+    <div className={`flex gap-3 ${isUser ? 'flex-row-reverse' : ''}`}>
+      <div className={`w-8 h-8 rounded-full flex items-center justify-center shrink-0 ${
+        isUser ? 'bg-blue-500' : 'bg-purple-500'
+      }`}>
+        {isUser ? (
+          <User className="w-4 h-4 text-white" />
+        ) : (
+          <Bot className="w-4 h-4 text-white" />
+        )}
+      </div>
+      <div className={`max-w-[80%] p-3 rounded-lg ${
+        isUser
+          ? 'bg-blue-500 text-white'
+          : 'bg-card border border-border'
+      }`}>
+        {isStreaming && !message.content ? (
+          <TypingIndicator />
+        ) : (
+          <p className="text-sm whitespace-pre-wrap">
+            {message.content}
+            {isStreaming && <span className="inline-block w-1.5 h-3.5 ml-0.5 bg-muted-foreground animate-pulse align-middle" />}
+          </p>
+        )}
+        {!isStreaming && (
+          <p className={`text-xs mt-1 ${
+            isUser ? 'text-blue-100' : 'text-muted-foreground'
+          }`}>
+            {message.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+            {message.status === 'incomplete' && ' • Response incomplete'}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+import { AlertCircle, RotateCcw } from 'lucide-react';
+import { Button } from './ui/button';
+
+interface ChatStatusProps {
+  error: string | null;
+  onRetry: () => void;
+}
+
+// Inline error row shown under the last message when the AI call failed.
+export function ChatStatus({ error, onRetry }: ChatStatusProps) {
+  if (!error) return null;
+
+  return (
+    <div className="flex items-start gap-2 p-3 rounded-lg border border-destructive/50 bg-destructive/10 text-sm">
+      <AlertCircle className="w-4 h-4 mt-0.5 shrink-0 text-destructive" />
+      <p className="flex-1 text-destructive">{error}</p>
+      <Button variant="outline" size="sm" onClick={onRetry} className="flex items-center gap-1">
+        <RotateCcw className="w-3 h-3" />
+        Retry
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { Button } from './ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Goal } from '../types/Goal';
+
+interface DeleteCategoryDialogProps {
+  category: Goal | null;
+  goalCount: number;
+  // Where the category's goals may be moved instead of being deleted
+  otherCategories: Goal[];
+  onCancel: () => void;
+  // null deletes the goals along with the category
+  onConfirm: (moveGoalsTo: string | null) => void;
+}
+
+const DELETE_GOALS = 'delete';
+
+export function DeleteCategoryDialog({ category, goalCount, otherCategories, onCancel, onConfirm }: DeleteCategoryDialogProps) {
+  const [target, setTarget] = useState(DELETE_GOALS);
+
+  // Start from "delete" again for every category
+  const [shownFor, setShownFor] = useState<string | null>(null);
+  if (category && category.id !== shownFor) {
+    setShownFor(category.id);
+    setTarget(DELETE_GOALS);
+  }
+
+  return (
+    <Dialog open={category !== null} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Delete "{category?.title}"?</DialogTitle>
+          <DialogDescription>
+            {goalCount > 0
+              ? `It has ${goalCount} ${goalCount === 1 ? 'goal' : 'goals'}. Its chat goes with it.`
+              : 'It has no goals. Its chat goes with it.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {goalCount > 0 && otherCategories.length > 0 && (
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Its goals</label>
+            <Select value={target} onValueChange={setTarget}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DELETE_GOALS}>Delete them too</SelectItem>
+                {otherCategories.map(other => (
+                  <SelectItem key={other.id} value={other.id}>Move to "{other.title}"</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button variant="destructive" onClick={() => onConfirm(target === DELETE_GOALS ? null : target)}>
+            Delete
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,38 +1,226 @@
-import React from 'react';
-import { MessageCircle } from 'lucide-react';
-import { Goal } from '../types/Goal';
+import React, { useState } from 'react';
+import { Archive, ArrowLeftRight, MessageCircle, Palette, Pencil, Shapes, Trash2 } from 'lucide-react';
+import { CategoryColor, CategoryIcon, Goal } from '../types/Goal';
+import { CATEGORY_COLORS, CATEGORY_ICONS, categoryColor, DEFAULT_CATEGORY_COLOR } from '../config/categoryStyles';
+import { StreakState } from '../utils/streaks';
+import { StreakBadge } from './StreakBadge';
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuRadioGroup,
+  ContextMenuRadioItem,
+  ContextMenuSeparator,
+  ContextMenuSub,
+  ContextMenuSubContent,
+  ContextMenuSubTrigger,
+  ContextMenuTrigger,
+} from './ui/context-menu';
+
+// Editing actions offered from the card's context menu (right click or long
+// press). Without them the card is read-only.
+export interface GoalCardActions {
+  onRename: (goal: Goal, title: string) => void;
+  onSwitchType: (goal: Goal) => void;
+  onColorChange: (goal: Goal, color: CategoryColor) => void;
+  onIconChange: (goal: Goal, icon: CategoryIcon | undefined) => void;
+  onArchive: (goal: Goal) => void;
+  onDelete: (goal: Goal) => void;
+}
 
 interface GoalCardProps {
   goal: Goal;
   onChatClick?: (goal: Goal) => void;
   onCardClick?: (goal: Goal) => void;
+  actions?: GoalCardActions;
+  // The best streak among the category's habits, if it has any
+  streak?: StreakState | null;
 }
 
-export function GoalCard({ goal, onChatClick, onCardClick }: GoalCardProps) {
+const RING_RADIUS = 14;
+const RING_CIRCUMFERENCE = 2 * Math.PI * RING_RADIUS;
+
+function ProgressRing({ progress, goal }: { progress: number; goal: Goal }) {
+  const colors = categoryColor(goal);
+  const Icon = goal.icon ? CATEGORY_ICONS[goal.icon].Icon : null;
+
+  return (
+    <div className="relative shrink-0 w-9 h-9">
+      <svg width="36" height="36" viewBox="0 0 36 36" className="-rotate-90">
+        <circle
+          cx="18"
+          cy="18"
+          r={RING_RADIUS}
+          fill="none"
+          strokeWidth="4"
+          className="stroke-muted"
+        />
+        <circle
+          cx="18"
+          cy="18"
+          r={RING_RADIUS}
+          fill="none"
+          strokeWidth="4"
+          strokeLinecap="round"
+          strokeDasharray={RING_CIRCUMFERENCE}
+          strokeDashoffset={RING_CIRCUMFERENCE * (1 - progress)}
+          className={`${colors.ring} transition-all duration-300`}
+        />
+      </svg>
+      {Icon && <Icon className={`absolute inset-0 m-auto w-4 h-4 ${colors.icon}`} />}
+    </div>
+  );
+}
+
+export function GoalCard({ goal, onChatClick, onCardClick, actions, streak }: GoalCardProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(goal.title);
+
   const handleChatClick = (e: React.MouseEvent) => {
     e.stopPropagation(); // Prevent card click when clicking chat button
     onChatClick?.(goal);
   };
 
   const handleCardClick = () => {
+    if (isEditing) return;
     onCardClick?.(goal);
   };
 
-  return (
-    <div 
-      className="bg-card border-2 border-border rounded-xl p-4 flex items-center justify-between w-56 cursor-pointer hover:bg-accent/50 transition-colors"
+  const startEditing = () => {
+    if (!actions) return;
+    setDraft(goal.title);
+    setIsEditing(true);
+  };
+
+  const finishEditing = (save: boolean) => {
+    setIsEditing(false);
+    const title = draft.trim();
+    if (save && title && title !== goal.title) actions?.onRename(goal, title);
+  };
+
+  const progress = goal.goalCount > 0 ? goal.completedCount / goal.goalCount : 0;
+  const colors = categoryColor(goal);
+
+  const card = (
+    <div
+      className={`bg-card border-2 ${goal.color ? colors.border : 'border-border'} rounded-xl p-4 flex items-center justify-between w-56 cursor-pointer hover:bg-accent/50 transition-colors`}
       onClick={handleCardClick}
     >
-      <div>
-        <h3 className="font-medium text-sm">{goal.title}</h3>
-        <p className="text-xs text-muted-foreground">{goal.goalCount} goals</p>
+      <div className="flex items-center gap-3 min-w-0">
+        <ProgressRing progress={progress} goal={goal} />
+        <div className="min-w-0">
+          {isEditing ? (
+            <input
+              autoFocus
+              value={draft}
+              aria-label="Category name"
+              onChange={(e) => setDraft(e.target.value)}
+              onClick={(e) => e.stopPropagation()}
+              onBlur={() => finishEditing(true)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') finishEditing(true);
+                if (e.key === 'Escape') finishEditing(false);
+              }}
+              // "nodrag" keeps React Flow from treating text selection as a drag
+              className="nodrag font-medium text-sm w-full bg-background border border-border rounded px-1 outline-none focus:border-purple-500"
+            />
+          ) : (
+            <h3
+              className="font-medium text-sm truncate"
+              onDoubleClick={(e) => {
+                e.stopPropagation();
+                startEditing();
+              }}
+            >
+              {goal.title}
+            </h3>
+          )}
+          <div className="flex items-center gap-2">
+            <p className="text-xs text-muted-foreground truncate">
+              {goal.goalCount > 0
+                ? `${goal.completedCount} of ${goal.goalCount} complete`
+                : 'No goals yet'}
+            </p>
+            {streak && <StreakBadge streak={streak} />}
+          </div>
+        </div>
       </div>
-      <button 
-        className="w-8 h-8 bg-background border border-border rounded-lg flex items-center justify-center hover:bg-purple-100 dark:hover:bg-purple-900 transition-colors"
+      <button
+        className="w-8 h-8 shrink-0 bg-background border border-border rounded-lg flex items-center justify-center hover:bg-purple-100 dark:hover:bg-purple-900 transition-colors"
         onClick={handleChatClick}
       >
         <MessageCircle className="w-4 h-4 text-muted-foreground" />
       </button>
     </div>
   );
-}
\ No newline at end of file
+
+  if (!actions) return card;
+
+  return (
+    <ContextMenu>
+      <ContextMenuTrigger asChild>{card}</ContextMenuTrigger>
+      {/* Keep focus on the rename field instead of returning it to the card */}
+      <ContextMenuContent className="w-52" onCloseAutoFocus={(e) => isEditing && e.preventDefault()}>
+        <ContextMenuItem onSelect={startEditing}>
+          <Pencil />
+          Rename
+        </ContextMenuItem>
+        <ContextMenuItem onSelect={() => actions.onSwitchType(goal)}>
+          <ArrowLeftRight />
+          Make {goal.type === 'output' ? 'input' : 'output'}
+        </ContextMenuItem>
+        <ContextMenuSub>
+          <ContextMenuSubTrigger>
+            <Palette />
+            Color
+          </ContextMenuSubTrigger>
+          <ContextMenuSubContent>
+            <ContextMenuRadioGroup
+              value={goal.color ?? DEFAULT_CATEGORY_COLOR}
+              onValueChange={(value) => actions.onColorChange(goal, value as CategoryColor)}
+            >
+              {(Object.keys(CATEGORY_COLORS) as CategoryColor[]).map(color => (
+                <ContextMenuRadioItem key={color} value={color}>
+                  <span className={`w-3 h-3 rounded-full ${CATEGORY_COLORS[color].swatch}`} />
+                  {CATEGORY_COLORS[color].label}
+                </ContextMenuRadioItem>
+              ))}
+            </ContextMenuRadioGroup>
+          </ContextMenuSubContent>
+        </ContextMenuSub>
+        <ContextMenuSub>
+          <ContextMenuSubTrigger>
+            <Shapes />
+            Icon
+          </ContextMenuSubTrigger>
+          <ContextMenuSubContent>
+            <ContextMenuRadioGroup
+              value={goal.icon ?? 'none'}
+              onValueChange={(value) => actions.onIconChange(goal, value === 'none' ? undefined : value as CategoryIcon)}
+            >
+              <ContextMenuRadioItem value="none">None</ContextMenuRadioItem>
+              {(Object.keys(CATEGORY_ICONS) as CategoryIcon[]).map(icon => {
+                const { Icon, label } = CATEGORY_ICONS[icon];
+                return (
+                  <ContextMenuRadioItem key={icon} value={icon}>
+                    <Icon />
+                    {label}
+                  </ContextMenuRadioItem>
+                );
+              })}
+            </ContextMenuRadioGroup>
+          </ContextMenuSubContent>
+        </ContextMenuSub>
+        <ContextMenuSeparator />
+        <ContextMenuItem onSelect={() => actions.onArchive(goal)}>
+          <Archive />
+          Archive
+        </ContextMenuItem>
+        <ContextMenuItem variant="destructive" onSelect={() => actions.onDelete(goal)}>
+          <Trash2 />
+          Delete
+        </ContextMenuItem>
+      </ContextMenuContent>
+    </ContextMenu>
+  );
+}
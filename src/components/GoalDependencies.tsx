@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { Check, Lock, X } from 'lucide-react';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from './ui/select';
+import { Goal, IndividualGoal } from '../types/Goal';
+import { findCycle, GoalsById } from '../utils/dependencies';
+import { IndividualGoalsByCategory } from '../utils/goalStore';
+import { isGoalComplete } from '../utils/recurrence';
+
+interface GoalDependenciesProps {
+  goal: IndividualGoal;
+  goalsById: GoalsById;
+  goalsByCategory: IndividualGoalsByCategory;
+  categories: Goal[];
+  onAdd: (blockerId: string) => void;
+  onRemove: (blockerId: string) => void;
+}
+
+export function GoalDependencies({ goal, goalsById, goalsByCategory, categories, onAdd, onRemove }: GoalDependenciesProps) {
+  // Remounting the picker clears it after each pick
+  const [pickerKey, setPickerKey] = useState(0);
+  const blockers = (goal.blockedBy ?? []).flatMap(id => goalsById.get(id) ?? []);
+  const categoryTitle = (id: string) => categories.find(category => category.id === id)?.title;
+
+  const candidates = categories
+    .map(category => ({
+      category,
+      goals: (goalsByCategory[category.id] ?? []).filter(g => g.id !== goal.id && !goal.blockedBy?.includes(g.id)),
+    }))
+    .filter(group => group.goals.length > 0);
+
+  return (
+    <div className="space-y-2">
+      {blockers.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {blockers.map(blocker => {
+            const done = isGoalComplete(blocker);
+            return (
+              <span
+                key={blocker.id}
+                className={`inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs ${
+                  done
+                    ? 'border-green-200 text-green-700 dark:border-green-800 dark:text-green-400'
+                    : 'border-amber-300 text-amber-700 dark:border-amber-700 dark:text-amber-400'
+                }`}
+              >
+                {done ? <Check className="w-3 h-3" /> : <Lock className="w-3 h-3" />}
+                {blocker.title}
+                {blocker.categoryId !== goal.categoryId && (
+                  <span className="text-muted-foreground">· {categoryTitle(blocker.categoryId)}</span>
+                )}
+                <button onClick={() => onRemove(blocker.id)} aria-label={`No longer blocked by "${blocker.title}"`}>
+                  <X className="w-3 h-3" />
+                </button>
+              </span>
+            );
+          })}
+        </div>
+      )}
+
+      {candidates.length > 0 && (
+        <Select
+          key={pickerKey}
+          onValueChange={(id) => {
+            onAdd(id);
+            setPickerKey(key => key + 1);
+          }}
+        >
+          <SelectTrigger size="sm" className="h-7 text-xs">
+            <SelectValue placeholder="Blocked by…" />
+          </SelectTrigger>
+          <SelectContent>
+            {candidates.map(({ category, goals }) => (
+              <SelectGroup key={category.id}>
+                <SelectLabel>{category.title}</SelectLabel>
+                {goals.map(candidate => {
+                  const loops = findCycle(goalsById, goal.id, candidate.id) !== null;
+                  return (
+                    <SelectItem key={candidate.id} value={candidate.id} disabled={loops}>
+                      {candidate.title}
+                      {loops && ' (would make a loop)'}
+                    </SelectItem>
+                  );
+                })}
+              </SelectGroup>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  );
+}
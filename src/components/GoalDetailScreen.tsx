@@ -2,58 +2,46 @@ import React, { useState } from 'react';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Textarea } from './ui/textarea';
-import { ArrowLeft, Plus, Calendar, Clock, Check, Edit2, Trash2 } from 'lucide-react';
-import { Goal, IndividualGoal } from '../types/Goal';
+import { ArrowLeft, Plus, Calendar, Clock, Check, Edit2, Trash2, List, Lock, Map as MapIcon, Repeat } from 'lucide-react';
+import { toast } from 'sonner';
+import { GoalPathView } from './GoalPathView';
+import { GoalDependencies } from './GoalDependencies';
+import { HabitHistory } from './HabitHistory';
+import { RecurrenceFields } from './RecurrenceFields';
+import { SortableList } from './SortableList';
+import { SubtaskList } from './SubtaskList';
+import { Goal, IndividualGoal, Subtask } from '../types/Goal';
+import { useCategories } from '../hooks/useCategories';
+import { useAllIndividualGoals, useIndividualGoals } from '../hooks/useIndividualGoals';
+import { useStreaks } from '../hooks/useStreaks';
+import { addBlocker, DependencyCycleError, indexGoals, openBlockers, removeBlocker } from '../utils/dependencies';
+import { execute } from '../utils/history';
+import { addGoalCommand, deleteGoalCommand, reorderGoalsCommand, toggleGoalCommand, updateGoalCommand } from '../utils/labCommands';
+import {
+  describeRecurrence,
+  draftToRecurrence,
+  isGoalComplete,
+  RecurrenceDraft,
+  recurrenceDraft,
+  RecurrenceError,
+} from '../utils/recurrence';
+import { addSubtask, goalProgress, removeSubtask, subtaskProgress, toggleSubtask } from '../utils/subtasks';
 
 interface GoalDetailScreenProps {
   goal: Goal;
   onBack: () => void;
 }
 
+type GoalView = 'path' | 'list';
+
 export function GoalDetailScreen({ goal, onBack }: GoalDetailScreenProps) {
-  // Mock individual goals for now - in a real app this would come from a database
-  const [individualGoals, setIndividualGoals] = useState<IndividualGoal[]>([
-    {
-      id: '1',
-      title: 'Complete project proposal',
-      description: 'Write and submit the initial project proposal',
-      deadline: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days from now
-      completed: true,
-      categoryId: goal.id
-    },
-    {
-      id: '2',
-      title: 'Set up development environment',
-      description: 'Install necessary tools and dependencies',
-      deadline: new Date(Date.now() + 3 * 24 * 60 * 60 * 1000), // 3 days from now
-      completed: true,
-      categoryId: goal.id
-    },
-    {
-      id: '3',
-      title: 'Design database schema',
-      description: 'Create the database structure and relationships',
-      deadline: new Date(Date.now() + 5 * 24 * 60 * 60 * 1000), // 5 days from now
-      completed: false,
-      categoryId: goal.id
-    },
-    {
-      id: '4',
-      title: 'Implement core features',
-      description: 'Build the main functionality of the application',
-      deadline: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000), // 14 days from now
-      completed: false,
-      categoryId: goal.id
-    },
-    {
-      id: '5',
-      title: 'Testing and debugging',
-      description: 'Thoroughly test the application and fix any issues',
-      deadline: new Date(Date.now() + 21 * 24 * 60 * 60 * 1000), // 21 days from now
-      completed: false,
-      categoryId: goal.id
-    }
-  ]);
+  const [individualGoals] = useIndividualGoals(goal.id);
+  // The path is for working through goals; the list is for editing them
+  const [view, setView] = useState<GoalView>('path');
+  const streaks = useStreaks();
+  const [categories] = useCategories();
+  const goalsByCategory = useAllIndividualGoals();
+  const goalsById = indexGoals(goalsByCategory);
 
   const [isAddingGoal, setIsAddingGoal] = useState(false);
   const [newGoalTitle, setNewGoalTitle] = useState('');
@@ -63,39 +51,100 @@ export function GoalDetailScreen({ goal, onBack }: GoalDetailScreenProps) {
   const [editTitle, setEditTitle] = useState('');
   const [editDescription, setEditDescription] = useState('');
   const [editDeadline, setEditDeadline] = useState('');
+  // Inputs are habits, so their goals can repeat
+  const [newRecurrence, setNewRecurrence] = useState<RecurrenceDraft>(recurrenceDraft());
+  const [editRecurrence, setEditRecurrence] = useState<RecurrenceDraft>(recurrenceDraft());
+  const [recurrenceError, setRecurrenceError] = useState<string | null>(null);
+  const [dependencyError, setDependencyError] = useState<{ goalId: string; message: string } | null>(null);
+
+  // Checks a drafted recurrence, showing why a custom rule can't be used
+  const readRecurrence = (draft: RecurrenceDraft, existing?: IndividualGoal['recurrence']) => {
+    try {
+      setRecurrenceError(null);
+      return { recurrence: draftToRecurrence(draft, existing) };
+    } catch (error) {
+      if (!(error instanceof RecurrenceError)) throw error;
+      setRecurrenceError(error.message);
+      return null;
+    }
+  };
 
-  const completedGoals = individualGoals.filter(g => g.completed);
-  const progressPercentage = (completedGoals.length / individualGoals.length) * 100;
+  const completedGoals = individualGoals.filter(g => isGoalComplete(g));
+  const completedIds = new Set(completedGoals.map(g => g.id));
+  // Goals still waiting on others, with what they're waiting on
+  const blockers = Object.fromEntries(individualGoals.map(g => [g.id, openBlockers(goalsById, g)]));
+  const isGoalBlocked = (g: IndividualGoal) => blockers[g.id].length > 0 && !completedIds.has(g.id);
+  // Subtasks count towards the bar, so half the steps of one goal is half a goal
+  const progressPercentage = individualGoals.length > 0
+    ? (individualGoals.reduce((sum, g) => sum + goalProgress(g, completedIds.has(g.id)), 0) / individualGoals.length) * 100
+    : 0;
 
   const addNewGoal = () => {
     if (!newGoalTitle.trim()) return;
+    const checked = readRecurrence(newRecurrence);
+    if (!checked) return;
 
     const newGoal: IndividualGoal = {
       id: Date.now().toString(),
       title: newGoalTitle,
       description: newGoalDescription,
-      deadline: newGoalDeadline ? new Date(newGoalDeadline) : undefined,
+      deadline: newGoalDeadline && !checked.recurrence ? new Date(newGoalDeadline) : undefined,
       completed: false,
-      categoryId: goal.id
+      categoryId: goal.id,
+      recurrence: checked.recurrence
     };
 
-    setIndividualGoals(prev => [...prev, newGoal]);
+    execute(addGoalCommand(newGoal));
     setNewGoalTitle('');
     setNewGoalDescription('');
     setNewGoalDeadline('');
+    setNewRecurrence(recurrenceDraft());
     setIsAddingGoal(false);
   };
 
   const toggleGoalCompletion = (goalId: string) => {
-    setIndividualGoals(prev => 
-      prev.map(g => 
-        g.id === goalId ? { ...g, completed: !g.completed } : g
-      )
-    );
+    const target = individualGoals.find(g => g.id === goalId);
+    if (!target) return;
+    if (isGoalBlocked(target)) {
+      toast.error(`"${target.title}" is waiting on ${blockers[target.id].map(b => `"${b.title}"`).join(', ')}.`);
+      return;
+    }
+    execute(toggleGoalCommand(target));
+  };
+
+  // A one-off goal is done once all of its steps are, unless it's still blocked
+  const updateSubtasks = (target: IndividualGoal, subtasks: Subtask[], label: string) => {
+    const { done, total } = subtaskProgress(subtasks);
+    const completed = !target.recurrence && total > 0
+      ? done === total && blockers[target.id].length === 0
+      : target.completed;
+    execute(updateGoalCommand(goal.id, target.id, { subtasks, completed }, label));
+  };
+
+  const addStep = (target: IndividualGoal, parentId: string | null, title: string) => {
+    const subtask: Subtask = { id: Date.now().toString(), title, completed: false };
+    updateSubtasks(target, addSubtask(target.subtasks, parentId, subtask), `Added step "${title}"`);
+  };
+
+  const addGoalBlocker = (target: IndividualGoal, blockerId: string) => {
+    try {
+      const blockedBy = addBlocker(goalsById, target, blockerId);
+      setDependencyError(null);
+      execute(updateGoalCommand(goal.id, target.id, { blockedBy }, `"${target.title}" now waits on "${goalsById.get(blockerId)?.title}"`));
+    } catch (error) {
+      if (!(error instanceof DependencyCycleError)) throw error;
+      setDependencyError({ goalId: target.id, message: error.message });
+    }
+  };
+
+  const removeGoalBlocker = (target: IndividualGoal, blockerId: string) => {
+    setDependencyError(null);
+    execute(updateGoalCommand(goal.id, target.id, { blockedBy: removeBlocker(target, blockerId) }, `"${target.title}" no longer waits on "${goalsById.get(blockerId)?.title}"`));
   };
 
   const deleteGoal = (goalId: string) => {
-    setIndividualGoals(prev => prev.filter(g => g.id !== goalId));
+    const target = individualGoals.find(g => g.id === goalId);
+    if (target) execute(deleteGoalCommand(target), { notify: true });
   };
 
   const startEditingGoal = (goal: IndividualGoal) => {
@@ -103,23 +152,22 @@ export function GoalDetailScreen({ goal, onBack }: GoalDetailScreenProps) {
     setEditTitle(goal.title);
     setEditDescription(goal.description || '');
     setEditDeadline(goal.deadline ? goal.deadline.toISOString().slice(0, 16) : '');
+    setEditRecurrence(recurrenceDraft(goal.recurrence));
+    setRecurrenceError(null);
   };
 
   const saveEditedGoal = () => {
     if (!editingGoal || !editTitle.trim()) return;
+    const existing = individualGoals.find(g => g.id === editingGoal)?.recurrence;
+    const checked = readRecurrence(editRecurrence, existing);
+    if (!checked) return;
 
-    setIndividualGoals(prev => 
-      prev.map(g => 
-        g.id === editingGoal 
-          ? {
-              ...g,
-              title: editTitle,
-              description: editDescription,
-              deadline: editDeadline ? new Date(editDeadline) : undefined
-            }
-          : g
-      )
-    );
+    execute(updateGoalCommand(goal.id, editingGoal, {
+      title: editTitle,
+      description: editDescription,
+      deadline: editDeadline && !checked.recurrence ? new Date(editDeadline) : undefined,
+      recurrence: checked.recurrence
+    }, `Edited "${editTitle}"`));
     
     setEditingGoal(null);
     setEditTitle('');
@@ -128,12 +176,18 @@ export function GoalDetailScreen({ goal, onBack }: GoalDetailScreenProps) {
   };
 
   const cancelEditing = () => {
+    setRecurrenceError(null);
     setEditingGoal(null);
     setEditTitle('');
     setEditDescription('');
     setEditDeadline('');
   };
 
+  const editFromPath = (target: IndividualGoal) => {
+    setView('list');
+    startEditingGoal(target);
+  };
+
   const formatDeadline = (deadline?: Date) => {
     if (!deadline) return 'No deadline';
     return deadline.toLocaleDateString() + ' ' + deadline.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
@@ -153,6 +207,28 @@ export function GoalDetailScreen({ goal, onBack }: GoalDetailScreenProps) {
               {completedGoals.length} of {individualGoals.length} goals completed
             </p>
           </div>
+          <div className="flex bg-muted rounded-lg p-1">
+            <Button
+              variant={view === 'path' ? 'secondary' : 'ghost'}
+              size="icon"
+              className="w-8 h-8"
+              onClick={() => setView('path')}
+              aria-label="Path view"
+              aria-pressed={view === 'path'}
+            >
+              <MapIcon className="w-4 h-4" />
+            </Button>
+            <Button
+              variant={view === 'list' ? 'secondary' : 'ghost'}
+              size="icon"
+              className="w-8 h-8"
+              onClick={() => setView('list')}
+              aria-label="List view"
+              aria-pressed={view === 'list'}
+            >
+              <List className="w-4 h-4" />
+            </Button>
+          </div>
         </div>
         
         {/* Progress Bar */}
@@ -170,150 +246,230 @@ export function GoalDetailScreen({ goal, onBack }: GoalDetailScreenProps) {
         </div>
       </div>
 
-      {/* Goals List */}
-      <div className="p-4 space-y-3">
-        {individualGoals.map((individualGoal, index) => (
-          <div key={individualGoal.id} className="relative">
-            {/* Connection Line */}
-            {index < individualGoals.length - 1 && (
-              <div className="absolute left-6 top-12 w-0.5 h-8 bg-border" />
-            )}
+      {view === 'path' ? (
+        <div className="p-4 overflow-x-hidden">
+          <GoalPathView
+            goals={individualGoals}
+            blockers={blockers}
+            onToggle={(target) => toggleGoalCompletion(target.id)}
+            onEdit={editFromPath}
+          />
+        </div>
+      ) : (
+        /* Goals List */
+        <div className="p-4 space-y-3">
+          <SortableList
+            items={individualGoals}
+            getLabel={(individualGoal) => individualGoal.title}
+            onReorder={(ids, moved) => execute(reorderGoalsCommand(goal.id, ids, `Moved "${moved.title}"`))}
+            className="space-y-3"
+            renderItem={(individualGoal, handle) => {
+              const index = individualGoals.indexOf(individualGoal);
+              return (
+                <div className="relative">
+                  {/* Connection Line */}
+                  {index < individualGoals.length - 1 && (
+                    <div className="absolute left-[55px] top-12 w-0.5 h-8 bg-border" />
+                  )}
             
-            {/* Goal Item */}
-            <div className={`flex items-start gap-3 p-4 rounded-lg border ${
-              individualGoal.completed 
-                ? 'bg-green-50 border-green-200 dark:bg-green-950 dark:border-green-800' 
-                : 'bg-card border-border'
-            }`}>
-              {/* Completion Circle */}
-              <button
-                onClick={() => toggleGoalCompletion(individualGoal.id)}
-                className={`w-6 h-6 rounded-full border-2 flex items-center justify-center mt-1 ${
-                  individualGoal.completed
-                    ? 'bg-green-500 border-green-500'
-                    : 'border-muted-foreground hover:border-purple-500'
-                }`}
-              >
-                {individualGoal.completed && <Check className="w-3 h-3 text-white" />}
-              </button>
+                  {/* Goal Item */}
+                  <div className={`flex items-start gap-3 p-4 rounded-lg border ${
+                    completedIds.has(individualGoal.id) 
+                      ? 'bg-green-50 border-green-200 dark:bg-green-950 dark:border-green-800' 
+                      : isGoalBlocked(individualGoal)
+                        ? 'bg-card border-dashed border-amber-400 dark:border-amber-700'
+                        : 'bg-card border-border'
+                  }`}>
+                    <div className="mt-1.5">{handle}</div>
 
-              {/* Goal Content - Editable */}
-              <div className="flex-1 min-w-0">
-                {editingGoal === individualGoal.id ? (
-                  <div className="space-y-2">
-                    <Input
-                      value={editTitle}
-                      onChange={(e) => setEditTitle(e.target.value)}
-                      className="font-medium"
-                    />
-                    <Textarea
-                      value={editDescription}
-                      onChange={(e) => setEditDescription(e.target.value)}
-                      placeholder="Description (optional)"
-                      className="min-h-16"
-                    />
-                    <Input
-                      type="datetime-local"
-                      value={editDeadline}
-                      onChange={(e) => setEditDeadline(e.target.value)}
-                    />
-                    <div className="flex gap-2">
-                      <Button onClick={saveEditedGoal} size="sm">
-                        Save
-                      </Button>
-                      <Button onClick={cancelEditing} variant="outline" size="sm">
-                        Cancel
-                      </Button>
-                    </div>
-                  </div>
-                ) : (
-                  <>
-                    <h3 className={`font-medium ${individualGoal.completed ? 'line-through text-muted-foreground' : ''}`}>
-                      {individualGoal.title}
-                    </h3>
-                    {individualGoal.description && (
-                      <p className="text-sm text-muted-foreground mt-1">
-                        {individualGoal.description}
-                      </p>
-                    )}
-                    <div className="flex items-center gap-4 mt-2 text-xs text-muted-foreground">
-                      <div className="flex items-center gap-1">
-                        <Calendar className="w-3 h-3" />
-                        {formatDeadline(individualGoal.deadline)}
-                      </div>
+                    {/* Completion Circle */}
+                    <button
+                      onClick={() => toggleGoalCompletion(individualGoal.id)}
+                      disabled={isGoalBlocked(individualGoal)}
+                      aria-label={isGoalBlocked(individualGoal) ? `"${individualGoal.title}" is blocked` : undefined}
+                      className={`w-6 h-6 rounded-full border-2 flex items-center justify-center mt-1 ${
+                        completedIds.has(individualGoal.id)
+                          ? 'bg-green-500 border-green-500'
+                          : isGoalBlocked(individualGoal)
+                            ? 'border-amber-400 text-amber-500 cursor-not-allowed'
+                            : 'border-muted-foreground hover:border-purple-500'
+                      }`}
+                    >
+                      {completedIds.has(individualGoal.id) && <Check className="w-3 h-3 text-white" />}
+                      {isGoalBlocked(individualGoal) && <Lock className="w-3 h-3" />}
+                    </button>
+
+                    {/* Goal Content - Editable */}
+                    <div className="flex-1 min-w-0">
+                      {editingGoal === individualGoal.id ? (
+                        <div className="space-y-2">
+                          <Input
+                            value={editTitle}
+                            onChange={(e) => setEditTitle(e.target.value)}
+                            className="font-medium"
+                          />
+                          <Textarea
+                            value={editDescription}
+                            onChange={(e) => setEditDescription(e.target.value)}
+                            placeholder="Description (optional)"
+                            className="min-h-16"
+                          />
+                          {(goal.type === 'input' || individualGoal.recurrence) && (
+                            <RecurrenceFields value={editRecurrence} onChange={setEditRecurrence} error={recurrenceError} />
+                          )}
+                          {editRecurrence.kind === 'none' && (
+                            <Input
+                              type="datetime-local"
+                              value={editDeadline}
+                              onChange={(e) => setEditDeadline(e.target.value)}
+                            />
+                          )}
+                          <div className="flex gap-2">
+                            <Button onClick={saveEditedGoal} size="sm">
+                              Save
+                            </Button>
+                            <Button onClick={cancelEditing} variant="outline" size="sm">
+                              Cancel
+                            </Button>
+                          </div>
+                        </div>
+                      ) : (
+                        <>
+                          <h3 className={`font-medium ${individualGoal.completed ? 'line-through text-muted-foreground' : ''}`}>
+                            {individualGoal.title}
+                          </h3>
+                          {individualGoal.description && (
+                            <p className="text-sm text-muted-foreground mt-1">
+                              {individualGoal.description}
+                            </p>
+                          )}
+                          <div className="flex items-center gap-4 mt-2 text-xs text-muted-foreground">
+                            {individualGoal.recurrence ? (
+                              <div className="flex items-center gap-1">
+                                <Repeat className="w-3 h-3" />
+                                {describeRecurrence(individualGoal.recurrence)}
+                              </div>
+                            ) : (
+                              <div className="flex items-center gap-1">
+                                <Calendar className="w-3 h-3" />
+                                {formatDeadline(individualGoal.deadline)}
+                              </div>
+                            )}
+                          </div>
+                          {isGoalBlocked(individualGoal) && (
+                            <p className="flex items-center gap-1 mt-1 text-xs text-amber-700 dark:text-amber-400">
+                              <Lock className="w-3 h-3" />
+                              Blocked by {blockers[individualGoal.id].map(b => b.title).join(', ')}
+                            </p>
+                          )}
+                          {individualGoal.recurrence && <HabitHistory goal={individualGoal} streak={streaks.habits[individualGoal.id]} />}
+                          <div className="mt-3">
+                            <SubtaskList
+                              subtasks={individualGoal.subtasks ?? []}
+                              onToggle={(id) => updateSubtasks(individualGoal, toggleSubtask(individualGoal.subtasks, id), `Updated a step of "${individualGoal.title}"`)}
+                              onRemove={(id) => updateSubtasks(individualGoal, removeSubtask(individualGoal.subtasks, id), `Removed a step of "${individualGoal.title}"`)}
+                              onAdd={(parentId, title) => addStep(individualGoal, parentId, title)}
+                            />
+                          </div>
+                          <div className="mt-3">
+                            <GoalDependencies
+                              goal={individualGoal}
+                              goalsById={goalsById}
+                              goalsByCategory={goalsByCategory}
+                              categories={categories}
+                              onAdd={(blockerId) => addGoalBlocker(individualGoal, blockerId)}
+                              onRemove={(blockerId) => removeGoalBlocker(individualGoal, blockerId)}
+                            />
+                            {dependencyError?.goalId === individualGoal.id && (
+                              <p className="text-xs text-destructive mt-1">{dependencyError.message}</p>
+                            )}
+                          </div>
+                        </>
+                      )}
                     </div>
-                  </>
-                )}
-              </div>
 
-              {/* Actions */}
-              {editingGoal !== individualGoal.id && (
-                <div className="flex gap-1">
-                  <Button 
-                    variant="ghost" 
-                    size="icon" 
-                    className="w-8 h-8"
-                    onClick={() => startEditingGoal(individualGoal)}
-                  >
-                    <Edit2 className="w-3 h-3" />
-                  </Button>
-                  <Button 
-                    variant="ghost" 
-                    size="icon" 
-                    className="w-8 h-8 text-destructive hover:text-destructive"
-                    onClick={() => deleteGoal(individualGoal.id)}
-                  >
-                    <Trash2 className="w-3 h-3" />
-                  </Button>
+                    {/* Actions */}
+                    {editingGoal !== individualGoal.id && (
+                      <div className="flex gap-1">
+                        <Button 
+                          variant="ghost" 
+                          size="icon" 
+                          className="w-8 h-8"
+                          onClick={() => startEditingGoal(individualGoal)}
+                        >
+                          <Edit2 className="w-3 h-3" />
+                        </Button>
+                        <Button 
+                          variant="ghost" 
+                          size="icon" 
+                          className="w-8 h-8 text-destructive hover:text-destructive"
+                          onClick={() => deleteGoal(individualGoal.id)}
+                        >
+                          <Trash2 className="w-3 h-3" />
+                        </Button>
+                      </div>
+                    )}
+                  </div>
                 </div>
-              )}
-            </div>
-          </div>
-        ))}
+              );
+            }}
+          />
 
-        {/* Add New Goal */}
-        {isAddingGoal ? (
-          <div className="bg-card border border-border rounded-lg p-4 space-y-3">
-            <Input
-              placeholder="Goal title"
-              value={newGoalTitle}
-              onChange={(e) => setNewGoalTitle(e.target.value)}
-            />
-            <Textarea
-              placeholder="Goal description (optional)"
-              value={newGoalDescription}
-              onChange={(e) => setNewGoalDescription(e.target.value)}
-              className="min-h-20"
-            />
-            <div className="flex items-center gap-2">
-              <Clock className="w-4 h-4 text-muted-foreground" />
+          {/* Add New Goal */}
+          {isAddingGoal ? (
+            <div className="bg-card border border-border rounded-lg p-4 space-y-3">
               <Input
-                type="datetime-local"
-                value={newGoalDeadline}
-                onChange={(e) => setNewGoalDeadline(e.target.value)}
-                className="flex-1"
+                placeholder="Goal title"
+                value={newGoalTitle}
+                onChange={(e) => setNewGoalTitle(e.target.value)}
               />
+              <Textarea
+                placeholder="Goal description (optional)"
+                value={newGoalDescription}
+                onChange={(e) => setNewGoalDescription(e.target.value)}
+                className="min-h-20"
+              />
+              {goal.type === 'input' && (
+                <RecurrenceFields value={newRecurrence} onChange={setNewRecurrence} error={recurrenceError} />
+              )}
+              {newRecurrence.kind === 'none' && (
+                <div className="flex items-center gap-2">
+                  <Clock className="w-4 h-4 text-muted-foreground" />
+                  <Input
+                    type="datetime-local"
+                    value={newGoalDeadline}
+                    onChange={(e) => setNewGoalDeadline(e.target.value)}
+                    className="flex-1"
+                  />
+                </div>
+              )}
+              <div className="flex gap-2">
+                <Button onClick={addNewGoal} className="flex-1">
+                  Add Goal
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    setRecurrenceError(null);
+                    setIsAddingGoal(false);
+                  }}
+                >
+                  Cancel
+                </Button>
+              </div>
             </div>
-            <div className="flex gap-2">
-              <Button onClick={addNewGoal} className="flex-1">
-                Add Goal
-              </Button>
-              <Button variant="outline" onClick={() => setIsAddingGoal(false)}>
-                Cancel
-              </Button>
-            </div>
-          </div>
-        ) : (
-          <Button
-            onClick={() => setIsAddingGoal(true)}
-            variant="outline"
-            className="w-full flex items-center gap-2"
-          >
-            <Plus className="w-4 h-4" />
-            Add New Goal
-          </Button>
-        )}
-      </div>
+          ) : (
+            <Button
+              onClick={() => setIsAddingGoal(true)}
+              variant="outline"
+              className="w-full flex items-center gap-2"
+            >
+              <Plus className="w-4 h-4" />
+              Add New Goal
+            </Button>
+          )}
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
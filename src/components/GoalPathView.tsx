@@ -0,0 +1,157 @@
+import React, { useMemo, useState } from 'react';
+import { Calendar, Check, Edit2, Lock, Repeat, Star, Trophy } from 'lucide-react';
+import { Button } from './ui/button';
+import { IndividualGoal } from '../types/Goal';
+import { buildGoalPath, PathNode, PathNodeState, windingOffset } from '../utils/goalPath';
+import { dateKey, describeRecurrence } from '../utils/recurrence';
+import { checkInDate } from '../utils/streaks';
+import { useToday } from '../hooks/useToday';
+
+interface GoalPathViewProps {
+  goals: IndividualGoal[];
+  // goal id -> goals it is still waiting on
+  blockers?: Record<string, IndividualGoal[]>;
+  onToggle: (goal: IndividualGoal) => void;
+  onEdit: (goal: IndividualGoal) => void;
+}
+
+const NODE_STYLES: Record<PathNodeState, string> = {
+  completed: 'bg-green-500 text-white shadow-[0_6px_0_rgb(21_128_61)]',
+  current: 'bg-purple-500 text-white shadow-[0_6px_0_rgb(107_33_168)]',
+  locked: 'bg-muted text-muted-foreground shadow-[0_6px_0_hsl(var(--border))]',
+};
+
+const NODE_ICONS: Record<PathNodeState, typeof Check> = {
+  completed: Check,
+  current: Star,
+  locked: Lock,
+};
+
+function PathNodeDetails({ node, blockers, onToggle, onEdit }: { node: PathNode } & Omit<GoalPathViewProps, 'goals'>) {
+  const { goal, state } = node;
+  const waitingOn = state === 'completed' ? [] : blockers?.[goal.id] ?? [];
+  // The same day the toggle logs to, which is yesterday late at night
+  const checkedInToday = goal.completions?.includes(dateKey(checkInDate(goal)));
+  const toggleLabel = goal.recurrence
+    ? checkedInToday ? 'Undo check-in' : 'Check in'
+    : state === 'completed' ? 'Reopen' : 'Mark complete';
+
+  return (
+    <div className="w-64 bg-card border border-border rounded-xl p-4 shadow-lg space-y-2 animate-in fade-in zoom-in-95 duration-200">
+      <h3 className="font-medium">{goal.title}</h3>
+      {goal.description && <p className="text-sm text-muted-foreground">{goal.description}</p>}
+      {goal.recurrence && (
+        <div className="flex items-center gap-1 text-xs text-muted-foreground">
+          <Repeat className="w-3 h-3" />
+          {describeRecurrence(goal.recurrence)}
+        </div>
+      )}
+      {goal.deadline && (
+        <div className="flex items-center gap-1 text-xs text-muted-foreground">
+          <Calendar className="w-3 h-3" />
+          {goal.deadline.toLocaleDateString()}
+        </div>
+      )}
+      <div className="flex gap-2 pt-1">
+        {state === 'locked' ? (
+          <Button size="sm" className="flex-1" disabled>
+            Finish the goals before it first
+          </Button>
+        ) : waitingOn.length > 0 ? (
+          <Button size="sm" className="flex-1 truncate" disabled>
+            Blocked by {waitingOn.map(blocker => blocker.title).join(', ')}
+          </Button>
+        ) : (
+          <Button
+            size="sm"
+            className="flex-1"
+            variant={state === 'completed' ? 'outline' : 'default'}
+            onClick={() => onToggle(goal)}
+          >
+            {toggleLabel}
+          </Button>
+        )}
+        <Button size="icon" variant="ghost" className="w-8 h-8" onClick={() => onEdit(goal)} aria-label="Edit goal">
+          <Edit2 className="w-3 h-3" />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function GoalPathView({ goals, blockers, onToggle, onEdit }: GoalPathViewProps) {
+  // Recurring goals reopen each day, so the path is rebuilt at the day's turn too
+  const now = useToday();
+  const units = useMemo(() => buildGoalPath(goals, now), [goals, now]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  if (units.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground text-center py-12">
+        Add goals in the list view to start your path.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-8 pb-8">
+      {units.map(unit => {
+        const done = unit.nodes.filter(node => node.state === 'completed').length;
+        return (
+          <section key={unit.number} className="space-y-6">
+            <div
+              className={`rounded-xl p-4 text-white flex items-center justify-between transition-colors duration-500 ${
+                unit.completed ? 'bg-green-500' : 'bg-purple-500'
+              }`}
+            >
+              <div>
+                <h2 className="font-medium">Unit {unit.number}</h2>
+                <p className="text-sm opacity-90">{done} of {unit.nodes.length} complete</p>
+              </div>
+              {unit.completed && <Trophy className="w-6 h-6 animate-in zoom-in-50 duration-500" />}
+            </div>
+
+            <div className="flex flex-col items-center gap-6">
+              {unit.nodes.map(node => {
+                const Icon = NODE_ICONS[node.state];
+                const isSelected = selectedId === node.goal.id;
+                return (
+                  <div
+                    key={node.goal.id}
+                    className="relative flex flex-col items-center"
+                    style={{ transform: `translateX(${windingOffset(node.step) * 80}px)` }}
+                  >
+                    {node.state === 'current' && !isSelected && (
+                      <span className="absolute -top-9 whitespace-nowrap bg-card border border-border rounded-lg px-2 py-1 text-xs font-medium text-purple-600 dark:text-purple-400 animate-bounce">
+                        Up next
+                      </span>
+                    )}
+                    <div className="relative">
+                      {node.state === 'current' && (
+                        <span className="absolute inset-0 rounded-full bg-purple-400 opacity-40 animate-ping" />
+                      )}
+                      {/* Keyed by state so a node animates in whenever it changes */}
+                      <button
+                        key={node.state}
+                        onClick={() => setSelectedId(isSelected ? null : node.goal.id)}
+                        aria-label={`${node.goal.title} (${node.state})`}
+                        className={`relative w-16 h-16 rounded-full flex items-center justify-center active:translate-y-1 active:shadow-none transition-transform animate-in zoom-in-50 duration-500 ${NODE_STYLES[node.state]}`}
+                      >
+                        <Icon className="w-7 h-7" />
+                      </button>
+                    </div>
+                    {isSelected && (
+                      <div className="mt-4 z-10">
+                        <PathNodeDetails node={node} blockers={blockers} onToggle={onToggle} onEdit={onEdit} />
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </section>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import React from 'react';
+import { IndividualGoal } from '../types/Goal';
+import { habitHistory, PeriodStatus } from '../utils/recurrence';
+import { StreakState } from '../utils/streaks';
+import { StreakBadge } from './StreakBadge';
+
+interface HabitHistoryProps {
+  goal: IndividualGoal;
+  streak?: StreakState;
+}
+
+const STATUS_STYLES: Record<PeriodStatus, string> = {
+  done: 'bg-green-500',
+  missed: 'bg-red-400 dark:bg-red-500/70',
+  open: 'border-2 border-purple-500',
+  rest: 'bg-muted',
+};
+
+const STATUS_LABELS: Record<PeriodStatus, string> = {
+  done: 'done',
+  missed: 'missed',
+  open: 'still to do',
+  rest: 'rest day',
+};
+
+// This period's progress plus a strip of the ones before it
+export function HabitHistory({ goal, streak }: HabitHistoryProps) {
+  const history = habitHistory(goal);
+  const current = history[history.length - 1];
+  if (!current) return null;
+
+  const weekly = goal.recurrence?.kind === 'weekly';
+  const describe = (start: Date) => (weekly
+    ? `Week of ${start.toLocaleDateString([], { month: 'short', day: 'numeric' })}`
+    : start.toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' }));
+
+  return (
+    <div className="mt-2 space-y-1">
+      <div className="flex items-center gap-2">
+        <p className="text-xs text-muted-foreground">
+          {weekly
+            ? `This week: ${current.done} of ${current.target}`
+            : `Today: ${STATUS_LABELS[current.status]}`}
+        </p>
+        {streak && <StreakBadge streak={streak} />}
+      </div>
+      <div className="flex gap-1" aria-label="Recent history">
+        {history.map(period => (
+          <span
+            key={period.start.getTime()}
+            title={`${describe(period.start)}: ${weekly ? `${period.done} of ${period.target}, ` : ''}${STATUS_LABELS[period.status]}`}
+            className={`w-3 h-3 rounded-sm ${STATUS_STYLES[period.status]}`}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+import { useMemo, useState } from 'react';
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from './ui/sheet';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Send, Square, User, Check, X } from 'lucide-react';
+import { ChatMessageBubble } from './ChatMessageBubble';
+import { ChatStatus } from './ChatStatus';
+import { ResetConversationButton, ShowEarlierButton } from './ChatHistoryControls';
+import { Goal } from '../types/Goal';
+import { Message } from '../types/Chat';
+import { useChat } from '../hooks/useChat';
+import { useSystemPrompt } from '../hooks/usePersona';
+import { HUB_THREAD_ID } from '../utils/chatStore';
+import {
+  describeLabActions,
+  LAB_ACTIONS_INSTRUCTIONS,
+  LabAction,
+  parseLabActions,
+  stripActionBlock,
+  validateLabActions,
+} from '../utils/labActions';
+
+interface HubChatPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  goals: Goal[];
+  onApplyActions: (actions: LabAction[]) => void;
+}
+
+interface ProposalCardProps {
+  message: Message;
+  goals: Goal[];
+  onApply: (actions: LabAction[]) => void;
+  onDismiss: () => void;
+}
+
+function ProposalCard({ message, goals, onApply, onDismiss }: ProposalCardProps) {
+  const parsed = parseLabActions(message.content);
+  if (!parsed) return null;
+
+  // Open proposals are re-validated against the current Lab, which may have
+  // changed since. Settled ones show what was proposed: once applied, their
+  // own changes would otherwise read as conflicts.
+  const settled = !!message.proposal;
+  const { actions, errors } = settled
+    ? { actions: parsed.actions, errors: [] }
+    : validateLabActions(goals, parsed.actions);
+  const changes = describeLabActions(goals, actions);
+  const problems = settled ? [] : [...parsed.errors, ...errors];
+
+  return (
+    <div className="ml-11 p-3 rounded-lg border border-border bg-muted/50 text-sm space-y-2">
+      <p className="font-medium">Proposed changes</p>
+      {changes.length > 0 ? (
+        <ul className="space-y-1 font-mono text-xs">
+          {changes.map((change, index) => (
+            <li
+              key={index}
+              className={
+                change.kind === 'add'
+                  ? 'text-green-600 dark:text-green-400'
+                  : change.kind === 'remove'
+                    ? 'text-destructive'
+                    : 'text-amber-600 dark:text-amber-400'
+              }
+            >
+              {change.kind === 'add' ? '+ ' : change.kind === 'remove' ? '- ' : '~ '}
+              {change.label}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-muted-foreground">Nothing left to apply.</p>
+      )}
+      {problems.length > 0 && (
+        <ul className="text-xs text-muted-foreground list-disc pl-4">
+          {problems.map((problem, index) => <li key={index}>{problem}</li>)}
+        </ul>
+      )}
+      {message.proposal ? (
+        <p className="text-xs text-muted-foreground">
+          {message.proposal === 'applied' ? 'Applied to your Lab' : 'Dismissed'}
+        </p>
+      ) : (
+        <div className="flex gap-2">
+          <Button size="sm" onClick={() => onApply(actions)} disabled={actions.length === 0} className="flex items-center gap-1">
+            <Check className="w-3 h-3" />
+            Apply
+          </Button>
+          <Button size="sm" variant="outline" onClick={onDismiss} className="flex items-center gap-1">
+            <X className="w-3 h-3" />
+            Dismiss
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function HubChatPanel({ isOpen, onClose, goals, onApplyActions }: HubChatPanelProps) {
+  const basePrompt = useSystemPrompt({ categories: goals });
+  const {
+    visibleMessages,
+    hasEarlier,
+    showEarlier,
+    isResponding,
+    error,
+    sendMessage: sendChatMessage,
+    retry,
+    stop,
+    resetConversation,
+    updateMessage
+  } = useChat({
+    threadId: HUB_THREAD_ID,
+    welcomeMessage: "This is your Lab. Tell me what you're working towards and what keeps you going, and I'll set up the inputs and outputs for you.",
+    systemPrompt: `${basePrompt.text}\n\n${LAB_ACTIONS_INSTRUCTIONS}`
+  });
+  const [inputText, setInputText] = useState('');
+
+  const displayMessages = useMemo(
+    () => visibleMessages.map(message => (
+      message.sender === 'ai' ? { ...message, content: stripActionBlock(message.content) } : message
+    )),
+    [visibleMessages]
+  );
+
+  const sendMessage = () => {
+    if (!inputText.trim() || isResponding) return;
+
+    sendChatMessage(inputText);
+    setInputText('');
+  };
+
+  const handleApply = (messageId: string, actions: LabAction[]) => {
+    onApplyActions(actions);
+    updateMessage(messageId, { proposal: 'applied' });
+  };
+
+  return (
+    <Sheet open={isOpen} onOpenChange={onClose}>
+      <SheetContent side="bottom" className="h-[80vh]">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <div className="w-8 h-8 bg-purple-500 rounded-full flex items-center justify-center">
+              <User className="w-4 h-4 text-white" />
+            </div>
+            <span className="flex-1">Lab Hub</span>
+            <ResetConversationButton onReset={resetConversation} />
+          </SheetTitle>
+        </SheetHeader>
+
+        <div className="flex flex-col h-full mt-4">
+          {/* Messages */}
+          <div className="flex-1 overflow-y-auto space-y-4 mb-4">
+            <ShowEarlierButton hasEarlier={hasEarlier} onShowEarlier={showEarlier} />
+            {displayMessages.map((message, index) => (
+              <div key={message.id} className="space-y-2">
+                <ChatMessageBubble message={message} />
+                {message.sender === 'ai' && !message.status && (
+                  <ProposalCard
+                    message={visibleMessages[index]}
+                    goals={goals}
+                    onApply={(actions) => handleApply(message.id, actions)}
+                    onDismiss={() => updateMessage(message.id, { proposal: 'dismissed' })}
+                  />
+                )}
+              </div>
+            ))}
+            <ChatStatus error={error} onRetry={retry} />
+          </div>
+
+          {/* Input */}
+          <div className="flex gap-2 mb-4">
+            <Input
+              value={inputText}
+              onChange={(e) => setInputText(e.target.value)}
+              placeholder="Plan your inputs and outputs..."
+              onKeyPress={(e) => e.key === 'Enter' && sendMessage()}
+              className="flex-1"
+            />
+            {isResponding ? (
+              <Button onClick={stop} size="icon" variant="outline" aria-label="Stop generating">
+                <Square className="w-4 h-4" />
+              </Button>
+            ) : (
+              <Button onClick={sendMessage} size="icon" className="bg-purple-500 hover:bg-purple-600">
+                <Send className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
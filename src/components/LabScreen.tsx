@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import ReactFlow, {
   Node,
   Edge,
@@ -7,27 +7,78 @@ import ReactFlow, {
   Handle,
   Position,
   Controls,
+  ControlButton,
   Background,
   NodeTypes,
+  EdgeTypes,
+  EdgeProps,
+  Connection,
+  NodeDragHandler,
+  ReactFlowInstance,
+  XYPosition,
   MarkerType,
+  BaseEdge,
+  EdgeLabelRenderer,
+  getBezierPath,
 } from 'reactflow';
 import 'reactflow/dist/style.css';
-import { Plus, MessageCircle, User } from 'lucide-react';
+import { Archive, ArrowUpDown, LayoutGrid, Plus, MessageCircle, User, X } from 'lucide-react';
 import { Button } from './ui/button';
-import { GoalCard } from './GoalCard';
-import { Goal } from '../types/Goal';
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from './ui/sheet';
+import { GoalCard, GoalCardActions } from './GoalCard';
+import { HubChatPanel } from './HubChatPanel';
+import { DeleteCategoryDialog } from './DeleteCategoryDialog';
+import { SortableList } from './SortableList';
+import { Goal, InfluenceWeight } from '../types/Goal';
+import { withGoalCounts } from '../utils/goalStore';
+import { getCategories } from '../utils/categoryStore';
+import { applyLabActions, LabAction } from '../utils/labActions';
+import { batch, execute } from '../utils/history';
+import {
+  addCategoryCommand,
+  addGoalCommand,
+  addInfluenceCommand,
+  deleteCategoryCommand,
+  moveGoalsCommand,
+  pinNodeCommand,
+  relayoutCommand,
+  removeInfluenceCommand,
+  reorderCategoriesCommand,
+  setInfluenceWeightCommand,
+  updateCategoryCommand,
+} from '../utils/labCommands';
+import { INFLUENCE_WEIGHT_LABELS } from '../utils/systemPrompt';
+import { layoutLab } from '../utils/labLayout';
+import { useAllIndividualGoals } from '../hooks/useIndividualGoals';
+import { useCategories } from '../hooks/useCategories';
+import { useInfluenceLinks } from '../hooks/useInfluences';
+import { usePinnedPositions } from '../hooks/usePinnedPositions';
+import { useStreaks } from '../hooks/useStreaks';
+import { bestStreak, StreakState } from '../utils/streaks';
 
 interface LabScreenProps {
   onGoalSelect: (goal: Goal) => void;
   onGoalChatOpen: (goal: Goal) => void;
 }
 
+// Handles that carry user-drawn influences rather than the hub's fixed edges
+const INFLUENCE_SOURCE = 'influence-source';
+const INFLUENCE_TARGET = 'influence-target';
+
 // Custom Node Components
-const GoalCardNode = ({ data }: { data: { goal: Goal } }) => {
+interface GoalCardNodeData {
+  goal: Goal;
+  onChatClick: (goal: Goal) => void;
+  onCardClick: (goal: Goal) => void;
+  actions: GoalCardActions;
+  streak: StreakState | null;
+}
+
+const GoalCardNode = ({ data }: { data: GoalCardNodeData }) => {
   const { goal } = data;
-  const handlePosition = goal.type === 'output' ? Position.Left : Position.Right;
+  const handlePosition = goal.type === 'output' ? Position.Bottom : Position.Top;
   const handleType = goal.type === 'output' ? 'target' : 'source';
-  const handleId = goal.type === 'output' ? 'target-left' : 'source-right';
+  const handleId = goal.type === 'output' ? 'target-bottom' : 'source-top';
 
   return (
     <div className="relative">
@@ -37,18 +88,27 @@ const GoalCardNode = ({ data }: { data: { goal: Goal } }) => {
         id={handleId}
         style={{ background: 'hsl(var(--border))', width: 8, height: 8 }}
       />
+      {/* Influences are drawn between the purple handles, beside the hub's */}
+      <Handle
+        type={handleType}
+        position={handlePosition}
+        id={goal.type === 'output' ? INFLUENCE_TARGET : INFLUENCE_SOURCE}
+        style={{ background: 'rgb(168 85 247)', width: 10, height: 10, left: '80%' }}
+      />
       <GoalCard 
         goal={goal} 
         onChatClick={data.onChatClick}
         onCardClick={data.onCardClick}
+        actions={data.actions}
+        streak={data.streak}
       />
     </div>
   );
 };
 
 const AddButtonNode = ({ data }: { data: { type: 'input' | 'output'; onAdd: (type: 'input' | 'output') => void } }) => {
-  const handlePosition = data.type === 'output' ? Position.Left : Position.Right;
-  const handleId = data.type === 'output' ? 'target-left' : 'source-right';
+  const handlePosition = data.type === 'output' ? Position.Bottom : Position.Top;
+  const handleId = data.type === 'output' ? 'target-bottom' : 'source-top';
 
   const handleClick = useCallback(() => {
     console.log('AddButtonNode clicked:', data.type);
@@ -78,40 +138,44 @@ const AddButtonNode = ({ data }: { data: { type: 'input' | 'output'; onAdd: (typ
   );
 };
 
-const CentralHubNode = () => {
+const CentralHubNode = ({ data }: { data: { onChatOpen: () => void } }) => {
   return (
     <div className="relative">
-      {/* Handles for output flow (left side) - hub sends to outputs */}
+      {/* Handles for output flow (top) - hub sends to outputs */}
       <Handle
         type="source"
-        position={Position.Left}
+        position={Position.Top}
         id="source-to-output-goals"
         style={{ background: 'hsl(var(--border))', width: 8, height: 8 }}
       />
       <Handle
         type="source"
-        position={Position.Left}
+        position={Position.Top}
         id="source-to-add-output-button"
         style={{ background: 'hsl(var(--border))', width: 8, height: 8 }}
       />
       
-      {/* Handles for input flow (right side) - hub receives from inputs */}
+      {/* Handles for input flow (bottom) - hub receives from inputs */}
       <Handle
         type="target"
-        position={Position.Right}
+        position={Position.Bottom}
         id="target-from-input-goals"
         style={{ background: 'hsl(var(--border))', width: 8, height: 8 }}
       />
       <Handle
         type="source"
-        position={Position.Right}
+        position={Position.Bottom}
         id="source-to-add-input-button"
         style={{ background: 'hsl(var(--border))', width: 8, height: 8 }}
       />
       
       <div className="w-20 h-16 bg-card border-2 border-border rounded-xl flex items-center justify-center relative">
         <User className="w-8 h-8 text-muted-foreground" />
-        <button className="absolute -top-2 -right-2 w-6 h-6 bg-card border border-border rounded-full flex items-center justify-center">
+        <button
+          onClick={data.onChatOpen}
+          aria-label="Open Lab hub chat"
+          className="absolute -top-2 -right-2 w-6 h-6 bg-card border border-border rounded-full flex items-center justify-center hover:bg-purple-100 dark:hover:bg-purple-900"
+        >
           <MessageCircle className="w-3 h-3 text-muted-foreground" />
         </button>
       </div>
@@ -119,67 +183,226 @@ const CentralHubNode = () => {
   );
 };
 
+const nextWeight = (weight?: InfluenceWeight): InfluenceWeight | undefined =>
+  weight === undefined ? 1 : weight === 3 ? undefined : ((weight + 1) as InfluenceWeight);
+
+interface InfluenceEdgeData {
+  weight?: InfluenceWeight;
+  onWeightChange: (id: string, weight: InfluenceWeight | undefined) => void;
+  onRemove: (id: string) => void;
+}
+
+const InfluenceEdge = ({ id, data, sourceX, sourceY, targetX, targetY, sourcePosition, targetPosition, markerEnd }: EdgeProps<InfluenceEdgeData>) => {
+  const [path, labelX, labelY] = getBezierPath({ sourceX, sourceY, sourcePosition, targetX, targetY, targetPosition });
+  const weight = data?.weight;
+
+  return (
+    <>
+      <BaseEdge
+        path={path}
+        markerEnd={markerEnd}
+        style={{ stroke: 'rgb(168 85 247)', strokeWidth: 1 + (weight ?? 1), strokeDasharray: weight ? undefined : '6 4' }}
+      />
+      <EdgeLabelRenderer>
+        <div
+          style={{ transform: `translate(-50%, -50%) translate(${labelX}px, ${labelY}px)` }}
+          className="nodrag nopan absolute pointer-events-auto flex items-center rounded-full border border-purple-300 dark:border-purple-700 bg-card text-xs shadow-sm"
+        >
+          <button
+            className="px-2 py-0.5 rounded-l-full hover:bg-purple-100 dark:hover:bg-purple-900"
+            onClick={() => data?.onWeightChange(id, nextWeight(weight))}
+            title="Change how strongly this input fuels the output"
+          >
+            {weight ? INFLUENCE_WEIGHT_LABELS[weight] : 'Set strength'}
+          </button>
+          <button
+            className="px-1 py-0.5 rounded-r-full border-l border-border hover:bg-purple-100 dark:hover:bg-purple-900"
+            onClick={() => data?.onRemove(id)}
+            aria-label="Remove connection"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+      </EdgeLabelRenderer>
+    </>
+  );
+};
+
 const nodeTypes: NodeTypes = {
   goalCard: GoalCardNode,
   addButton: AddButtonNode,
   centralHub: CentralHubNode,
 };
 
+const edgeTypes: EdgeTypes = {
+  influence: InfluenceEdge,
+};
+
+// Only an input's influence handle may be connected, and only to an output's
+const isInfluenceConnection = (connection: Connection) =>
+  connection.sourceHandle === INFLUENCE_SOURCE &&
+  connection.targetHandle === INFLUENCE_TARGET &&
+  !!connection.source?.startsWith('input-') &&
+  !!connection.target?.startsWith('output-');
+
+// Where a category joins the bottom of its stack: after the last one of its
+// type, or, for the first of its type, at the start for outputs and the end
+// for inputs, so outputs keep coming before inputs
+const stackEndIndex = (categories: Goal[], type: Goal['type']) => {
+  const last = categories.map(category => category.type).lastIndexOf(type);
+  if (last !== -1) return last + 1;
+  return type === 'output' ? 0 : categories.length;
+};
+
 export function LabScreen({ onGoalSelect, onGoalChatOpen }: LabScreenProps) {
-  // Load initial state from localStorage or use default
-  const [goals, setGoals] = useState<Goal[]>(() => {
-    const saved = localStorage.getItem('dejavu-lab-goals');
-    if (saved) {
-      try {
-        return JSON.parse(saved);
-      } catch (e) {
-        console.error('Failed to parse saved goals:', e);
-      }
-    }
-    return [
-    { id: '1', title: 'CSE201 Project 4', goalCount: 13, type: 'output' },
-    { id: '2', title: 'Complete database overhaul', goalCount: 10, type: 'output' },
-    { id: '3', title: '$5K in MRR', goalCount: 4, type: 'output' },
-    { id: '4', title: 'Rest and Sleep', goalCount: 5, type: 'input' },
-    { id: '5', title: 'Hydration and Nutrition', goalCount: 4, type: 'input' },
-    { id: '6', title: 'Recreation', goalCount: 3, type: 'input' },
-    ];
-  });
+  const [goals] = useCategories();
+
+  // Counts are always recomputed from the individual goals rather than trusted
+  // from the saved categories.
+  const individualGoalsByCategory = useAllIndividualGoals();
+  const goalsWithCounts = useMemo(
+    () => goals.map(goal => withGoalCounts(goal, individualGoalsByCategory[goal.id])),
+    [goals, individualGoalsByCategory]
+  );
+  const activeGoals = useMemo(() => goalsWithCounts.filter(goal => !goal.archived), [goalsWithCounts]);
+  const archivedGoals = useMemo(() => goalsWithCounts.filter(goal => goal.archived), [goalsWithCounts]);
+
+  const influenceLinks = useInfluenceLinks();
+  const [pinnedPositions] = usePinnedPositions();
+  const streaks = useStreaks();
+
+  const [isArchiveOpen, setIsArchiveOpen] = useState(false);
+  const [isArrangeOpen, setIsArrangeOpen] = useState(false);
+  const [deleting, setDeleting] = useState<Goal | null>(null);
 
   const [nodes, setNodes, onNodesChange] = useNodesState([]);
   const [edges, setEdges, onEdgesChange] = useEdgesState([]);
 
-  // Save goals to localStorage whenever they change
-  useEffect(() => {
-    localStorage.setItem('dejavu-lab-goals', JSON.stringify(goals));
-  }, [goals]);
-
   // Stable addGoal function using useCallback
   const addGoal = useCallback((type: 'input' | 'output') => {
-    setGoals(prevGoals => {
-      const newGoal: Goal = {
-        id: Date.now().toString(),
-        title: type === 'output' ? 'New Output Category' : 'New Input Category',
-        goalCount: 0,
-        type
-      };
-      
-      let newGoals: Goal[];
-      
-      if (type === 'output') {
-        // Add output goals at the end of outputs (bottom of stack)
-        const outputGoals = prevGoals.filter(g => g.type === 'output');
-        const inputGoals = prevGoals.filter(g => g.type === 'input');
-        newGoals = [...outputGoals, newGoal, ...inputGoals];
-      } else {
-        // Add input goals at the beginning of inputs (top of stack)
-        const outputGoals = prevGoals.filter(g => g.type === 'output');
-        const inputGoals = prevGoals.filter(g => g.type === 'input');
-        newGoals = [...outputGoals, newGoal, ...inputGoals];
-      }
-      
-      return newGoals;
-    });
+    const newGoal: Goal = {
+      id: Date.now().toString(),
+      title: type === 'output' ? 'New Output Category' : 'New Input Category',
+      goalCount: 0,
+      completedCount: 0,
+      type
+    };
+
+    execute(addCategoryCommand(newGoal, stackEndIndex(getCategories(), type)));
+  }, []);
+
+  const [isHubChatOpen, setIsHubChatOpen] = useState(false);
+
+  const openHubChat = useCallback(() => {
+    setIsHubChatOpen(true);
+  }, []);
+
+  // Apply changes the hub chat proposed and the user confirmed
+  const handleApplyActions = useCallback((actions: LabAction[]) => {
+    // The hub only sees active categories, so it's those the actions apply to
+    const result = applyLabActions(goals.filter(goal => !goal.archived), actions);
+    let remaining = goals.filter(goal => !result.deletedCategoryIds.includes(goal.id));
+    const commands = [
+      ...goals
+        .filter(goal => result.deletedCategoryIds.includes(goal.id))
+        .map(goal => deleteCategoryCommand(goal)),
+      ...result.goals.flatMap((goal, index) => {
+        const existing = remaining.find(g => g.id === goal.id);
+        if (!existing) {
+          // Placed before the category that follows it among the active
+          // ones, leaving archived categories where they are
+          const next = result.goals.slice(index + 1).find(g => remaining.some(r => r.id === g.id));
+          const at = next ? remaining.findIndex(r => r.id === next.id) : remaining.length;
+          remaining = [...remaining.slice(0, at), goal, ...remaining.slice(at)];
+          return [addCategoryCommand(goal, at)];
+        }
+        return existing.title === goal.title ? [] : [updateCategoryCommand(goal.id, { title: goal.title })];
+      }),
+      ...Object.values(result.addedGoals).flat().map(goal => addGoalCommand(goal)),
+    ];
+    if (commands.length > 0) execute(batch('Applied hub changes', commands), { notify: true });
+  }, [goals]);
+
+  const cardActions = useMemo<GoalCardActions>(() => ({
+    onRename: (goal, title) => execute(updateCategoryCommand(goal.id, { title }, `Renamed "${goal.title}"`)),
+    // Moves the card to the bottom of its new stack and drops any position
+    // it was dragged to under its old node id
+    onSwitchType: (goal) => {
+      const type = goal.type === 'output' ? 'input' : 'output';
+      const others = getCategories().filter(category => category.id !== goal.id);
+      const index = stackEndIndex(others, type);
+      const ids = [...others.slice(0, index), goal, ...others.slice(index)].map(category => category.id);
+      execute(batch(`Made "${goal.title}" an ${type}`, [
+        updateCategoryCommand(goal.id, { type }),
+        reorderCategoriesCommand(ids),
+        relayoutCommand([`output-${goal.id}`, `input-${goal.id}`]),
+      ]));
+    },
+    onColorChange: (goal, color) => execute(updateCategoryCommand(goal.id, { color }, `Recolored "${goal.title}"`)),
+    onIconChange: (goal, icon) => execute(updateCategoryCommand(goal.id, { icon }, `Changed the icon of "${goal.title}"`)),
+    onArchive: (goal) => execute(updateCategoryCommand(goal.id, { archived: true }, `Archived "${goal.title}"`), { notify: true }),
+    onDelete: setDeleting,
+  }), []);
+
+  const confirmDelete = useCallback((moveGoalsTo: string | null) => {
+    if (!deleting) return;
+    const command = moveGoalsTo
+      ? batch(`Deleted "${deleting.title}"`, [moveGoalsCommand(deleting.id, moveGoalsTo), deleteCategoryCommand(deleting)])
+      : deleteCategoryCommand(deleting);
+    execute(command, { notify: true });
+    setDeleting(null);
+  }, [deleting]);
+
+  const handleConnect = useCallback((connection: Connection) => {
+    if (!isInfluenceConnection(connection)) return;
+    const inputId = connection.source!.slice('input-'.length);
+    const outputId = connection.target!.slice('output-'.length);
+    if (influenceLinks.some(link => link.input.id === inputId && link.output.id === outputId)) return;
+    execute(addInfluenceCommand({ id: Date.now().toString(), inputId, outputId }));
+  }, [influenceLinks]);
+
+  const handleInfluenceWeightChange = useCallback((id: string, weight: InfluenceWeight | undefined) => {
+    execute(setInfluenceWeightCommand(id, weight));
+  }, []);
+
+  const handleInfluenceRemove = useCallback((id: string) => {
+    execute(removeInfluenceCommand(id), { notify: true });
+  }, []);
+
+  // Selected influences can also be removed with the keyboard
+  const handleEdgesDelete = useCallback((deleted: Edge[]) => {
+    deleted
+      .filter(edge => edge.type === 'influence')
+      .forEach(edge => execute(removeInfluenceCommand(edge.id), { notify: true }));
+  }, []);
+
+  // A dragged node stays where it was dropped, even after the graph changes
+  const dragStart = useRef<XYPosition | null>(null);
+  const handleNodeDragStart = useCallback<NodeDragHandler>((_, node) => {
+    dragStart.current = node.position;
+  }, []);
+  const handleNodeDragStop = useCallback<NodeDragHandler>((_, node) => {
+    const start = dragStart.current;
+    dragStart.current = null;
+    if (start && start.x === node.position.x && start.y === node.position.y) return;
+    execute(pinNodeCommand(node.id, node.position));
+  }, []);
+
+  const [flow, setFlow] = useState<ReactFlowInstance | null>(null);
+  const relayout = useCallback(() => {
+    if (Object.keys(pinnedPositions).length > 0) execute(relayoutCommand(), { notify: true });
+    // Let the new positions render before framing them
+    requestAnimationFrame(() => flow?.fitView({ padding: 0.2, duration: 300 }));
+  }, [pinnedPositions, flow]);
+
+  // Reorders one stack, leaving the other and archived categories in place.
+  // Its cards are unpinned too, so the new order shows on the canvas.
+  const reorderStack = useCallback((type: Goal['type'], orderedIds: string[], moved: Goal) => {
+    const queue = [...orderedIds];
+    const ids = getCategories().map(category => (
+      category.type === type && !category.archived && queue.length > 0 ? queue.shift()! : category.id
+    ));
+    execute(batch(`Moved "${moved.title}"`, [reorderCategoriesCommand(ids), relayoutCommand(orderedIds.map(id => `${type}-${id}`))]));
   }, []);
 
   // Handle chat panel opening
@@ -192,145 +415,148 @@ export function LabScreen({ onGoalSelect, onGoalChatOpen }: LabScreenProps) {
     onGoalSelect(goal);
   }, [onGoalSelect]);
 
-  // Generate nodes and edges from goals state
+  // Generate nodes and edges from goals state, then lay them out
   useEffect(() => {
-    const outputGoals = goals.filter(g => g.type === 'output');
-    const inputGoals = goals.filter(g => g.type === 'input');
+    const outputGoals = activeGoals.filter(g => g.type === 'output');
+    const inputGoals = activeGoals.filter(g => g.type === 'input');
     
     const newNodes: Node[] = [];
     const newEdges: Edge[] = [];
+    const hubEdge = (edge: Pick<Edge, 'id' | 'source' | 'target' | 'sourceHandle' | 'targetHandle'>): Edge => ({
+      ...edge,
+      type: 'smoothstep',
+      deletable: false,
+      style: { stroke: 'hsl(var(--border))', strokeWidth: 2 },
+      markerEnd: {
+        type: MarkerType.ArrowClosed,
+        width: 20,
+        height: 20,
+        color: 'hsl(var(--border))',
+      },
+    });
+    // Positions are filled in by the layout below
+    const origin = { x: 0, y: 0 };
     
-    const centerX = 320;
-    let currentY = 100;
-    const nodeSpacing = 70;
-    
-    // Create output goal nodes (vertical layout)
-    outputGoals.forEach((goal, index) => {
+    // Output goal nodes, fed by the hub
+    outputGoals.forEach(goal => {
       const nodeId = `output-${goal.id}`;
       newNodes.push({
         id: nodeId,
         type: 'goalCard',
-        position: { x: centerX - 264, y: currentY },
-        data: { goal, onChatClick: handleChatClick, onCardClick: handleCardClick },
+        position: origin,
+        data: {
+          goal,
+          onChatClick: handleChatClick,
+          onCardClick: handleCardClick,
+          actions: cardActions,
+          streak: bestStreak(individualGoalsByCategory[goal.id] ?? [], streaks),
+        },
       });
-      
-      // Connect from central hub to output (hub sends to output)
-      newEdges.push({
+      newEdges.push(hubEdge({
         id: `edge-hub-to-${nodeId}`,
         source: 'central-hub',
         target: nodeId,
-        type: 'smoothstep',
         sourceHandle: 'source-to-output-goals',
-        targetHandle: 'target-left',
-        style: { stroke: 'hsl(var(--border))', strokeWidth: 2 },
-        markerEnd: {
-          type: MarkerType.ArrowClosed,
-          width: 20,
-          height: 20,
-          color: 'hsl(var(--border))',
-        },
-      });
-      
-      currentY += nodeSpacing;
+        targetHandle: 'target-bottom',
+      }));
     });
     
-    // Add output button
     newNodes.push({
       id: 'add-output',
       type: 'addButton',
-      position: { x: centerX - 264, y: currentY },
+      position: origin,
       data: { type: 'output' as const, onAdd: addGoal },
     });
-    
-    // Connect from central hub to output button
-    newEdges.push({
+    newEdges.push(hubEdge({
       id: 'edge-hub-to-add-output',
       source: 'central-hub',
       target: 'add-output',
-      type: 'smoothstep',
       sourceHandle: 'source-to-add-output-button',
-      targetHandle: 'target-left',
-      style: { stroke: 'hsl(var(--border))', strokeWidth: 2 },
-      markerEnd: {
-        type: MarkerType.ArrowClosed,
-        width: 20,
-        height: 20,
-        color: 'hsl(var(--border))',
-      },
-    });
+      targetHandle: 'target-bottom',
+    }));
     
-    currentY += nodeSpacing;
-    
-    // Central hub
     newNodes.push({
       id: 'central-hub',
       type: 'centralHub',
-      position: { x: centerX - 40, y: currentY },
-      data: {},
+      position: origin,
+      data: { onChatOpen: openHubChat },
     });
     
-    currentY += nodeSpacing;
+    // Input goal nodes, feeding the hub
+    inputGoals.forEach(goal => {
+      const nodeId = `input-${goal.id}`;
+      newNodes.push({
+        id: nodeId,
+        type: 'goalCard',
+        position: origin,
+        data: {
+          goal,
+          onChatClick: handleChatClick,
+          onCardClick: handleCardClick,
+          actions: cardActions,
+          streak: bestStreak(individualGoalsByCategory[goal.id] ?? [], streaks),
+        },
+      });
+      newEdges.push(hubEdge({
+        id: `edge-${nodeId}-to-hub`,
+        source: nodeId,
+        target: 'central-hub',
+        sourceHandle: 'source-top',
+        targetHandle: 'target-from-input-goals',
+      }));
+    });
     
-    // Add input button
     newNodes.push({
       id: 'add-input',
       type: 'addButton',
-      position: { x: centerX + 40, y: currentY },
+      position: origin,
       data: { type: 'input' as const, onAdd: addGoal },
     });
-    
-    // Connect from central hub to input button
-    newEdges.push({
+    newEdges.push(hubEdge({
       id: 'edge-add-input-to-hub',
       source: 'add-input',
       target: 'central-hub',
-      type: 'smoothstep',
-      sourceHandle: 'source-right',
+      sourceHandle: 'source-top',
       targetHandle: 'target-from-input-goals',
-      style: { stroke: 'hsl(var(--border))', strokeWidth: 2 },
-      markerEnd: {
-        type: MarkerType.ArrowClosed,
-        width: 20,
-        height: 20,
-        color: 'hsl(var(--border))',
-      },
-    });
+    }));
     
-    currentY += nodeSpacing;
-    
-    // Create input goal nodes (vertical layout)
-    inputGoals.forEach((goal, index) => {
-      const nodeId = `input-${goal.id}`;
-      newNodes.push({
-        id: nodeId,
-        type: 'goalCard',
-        position: { x: centerX + 40, y: currentY },
-        data: { goal, onChatClick: handleChatClick, onCardClick: handleCardClick },
-      });
-      
-      // Connect from input to central hub (input sends to hub)
+    // Influences the user drew from inputs to the outputs they fuel
+    influenceLinks.forEach(link => {
       newEdges.push({
-        id: `edge-${nodeId}-to-hub`,
-        source: nodeId,
-        target: 'central-hub',
-        type: 'smoothstep',
-        sourceHandle: 'source-right',
-        targetHandle: 'target-from-input-goals',
-        style: { stroke: 'hsl(var(--border))', strokeWidth: 2 },
+        id: link.id,
+        source: `input-${link.input.id}`,
+        target: `output-${link.output.id}`,
+        type: 'influence',
+        sourceHandle: INFLUENCE_SOURCE,
+        targetHandle: INFLUENCE_TARGET,
+        data: { weight: link.weight, onWeightChange: handleInfluenceWeightChange, onRemove: handleInfluenceRemove },
         markerEnd: {
           type: MarkerType.ArrowClosed,
-          width: 20,
-          height: 20,
-          color: 'hsl(var(--border))',
+          width: 16,
+          height: 16,
+          color: 'rgb(168 85 247)',
         },
       });
-      
-      currentY += nodeSpacing;
     });
     
-    setNodes(newNodes);
+    setNodes(layoutLab(newNodes, newEdges, pinnedPositions));
     setEdges(newEdges);
-  }, [goals, addGoal, setNodes, setEdges, handleChatClick, handleCardClick]);
+  }, [
+    activeGoals,
+    individualGoalsByCategory,
+    streaks,
+    influenceLinks,
+    pinnedPositions,
+    addGoal,
+    openHubChat,
+    setNodes,
+    setEdges,
+    handleChatClick,
+    handleCardClick,
+    cardActions,
+    handleInfluenceWeightChange,
+    handleInfluenceRemove,
+  ]);
 
   return (
     <div className="min-h-screen bg-background">
@@ -340,14 +566,116 @@ export function LabScreen({ onGoalSelect, onGoalChatOpen }: LabScreenProps) {
           edges={edges}
           onNodesChange={onNodesChange}
           onEdgesChange={onEdgesChange}
+          onConnect={handleConnect}
+          onEdgesDelete={handleEdgesDelete}
+          onNodeDragStart={handleNodeDragStart}
+          onNodeDragStop={handleNodeDragStop}
+          onInit={setFlow}
+          isValidConnection={isInfluenceConnection}
           nodeTypes={nodeTypes}
+          edgeTypes={edgeTypes}
           fitView
           fitViewOptions={{ padding: 0.2 }}
         >
-          <Controls />
+          <Controls>
+            <ControlButton onClick={relayout} title="Re-layout" aria-label="Re-layout">
+              <LayoutGrid />
+            </ControlButton>
+            <ControlButton onClick={() => setIsArrangeOpen(true)} title="Arrange categories" aria-label="Arrange categories">
+              <ArrowUpDown />
+            </ControlButton>
+          </Controls>
           <Background />
         </ReactFlow>
       </div>
+      {archivedGoals.length > 0 && (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setIsArchiveOpen(true)}
+          className="fixed top-4 right-4 flex items-center gap-1"
+        >
+          <Archive className="w-4 h-4" />
+          Archived ({archivedGoals.length})
+        </Button>
+      )}
+      <Sheet open={isArchiveOpen && archivedGoals.length > 0} onOpenChange={setIsArchiveOpen}>
+        <SheetContent side="right" className="w-full sm:max-w-sm">
+          <SheetHeader>
+            <SheetTitle>Archived categories</SheetTitle>
+          </SheetHeader>
+          <div className="px-4 space-y-2">
+            {archivedGoals.map(goal => (
+              <div key={goal.id} className="flex items-center justify-between gap-2 border border-border rounded-lg p-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">{goal.title}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {goal.type === 'output' ? 'Output' : 'Input'} · {goal.completedCount} of {goal.goalCount} complete
+                  </p>
+                </div>
+                <div className="flex gap-1 shrink-0">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => execute(updateCategoryCommand(goal.id, { archived: false }, `Restored "${goal.title}"`))}
+                  >
+                    Restore
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => setDeleting(goal)}>
+                    Delete
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </SheetContent>
+      </Sheet>
+      <Sheet open={isArrangeOpen} onOpenChange={setIsArrangeOpen}>
+        <SheetContent side="right" className="w-full sm:max-w-sm">
+          <SheetHeader>
+            <SheetTitle>Arrange categories</SheetTitle>
+          </SheetHeader>
+          <div className="px-4 space-y-6 overflow-y-auto">
+            {(['output', 'input'] as const).map(type => {
+              const stack = activeGoals.filter(goal => goal.type === type);
+              if (stack.length === 0) return null;
+              return (
+                <section key={type} className="space-y-2">
+                  <h3 className="text-sm font-medium text-muted-foreground">{type === 'output' ? 'Outputs' : 'Inputs'}</h3>
+                  <SortableList
+                    items={stack}
+                    getLabel={(goal) => goal.title}
+                    onReorder={(ids, moved) => reorderStack(type, ids, moved)}
+                    className="space-y-2"
+                    renderItem={(goal, handle) => (
+                      <div className="flex items-center gap-3 border border-border rounded-lg p-3 bg-card">
+                        {handle}
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium truncate">{goal.title}</p>
+                          <p className="text-xs text-muted-foreground">{goal.completedCount} of {goal.goalCount} complete</p>
+                        </div>
+                      </div>
+                    )}
+                  />
+                </section>
+              );
+            })}
+          </div>
+        </SheetContent>
+      </Sheet>
+      <DeleteCategoryDialog
+        category={deleting}
+        goalCount={deleting ? individualGoalsByCategory[deleting.id]?.length ?? 0 : 0}
+        otherCategories={goals.filter(goal => goal.id !== deleting?.id)}
+        onCancel={() => setDeleting(null)}
+        onConfirm={confirmDelete}
+      />
+      <HubChatPanel
+        isOpen={isHubChatOpen}
+        onClose={() => setIsHubChatOpen(false)}
+        goals={activeGoals}
+        onApplyActions={handleApplyActions}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -1,11 +1,34 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Button } from './ui/button';
+import { AuthProviderId } from '../types/Auth';
+import { getAuthProviders } from '../utils/authProviders';
 
 interface LoginScreenProps {
-  onLogin: () => void;
+  onLogin: (provider: AuthProviderId) => Promise<void>;
+  error?: string | null;
+  isRestoring?: boolean;
 }
 
-export function LoginScreen({ onLogin }: LoginScreenProps) {
+export function LoginScreen({ onLogin, error, isRestoring = false }: LoginScreenProps) {
+  const providers = getAuthProviders();
+  const hasProviders = Object.keys(providers).length > 0;
+  const [pending, setPending] = useState<AuthProviderId | null>(null);
+  const [loginError, setLoginError] = useState<string | null>(null);
+
+  const handleLogin = async (provider: AuthProviderId) => {
+    setPending(provider);
+    setLoginError(null);
+    try {
+      await onLogin(provider);
+    } catch (e) {
+      setLoginError(e instanceof Error ? e.message : 'Sign-in failed.');
+      setPending(null);
+    }
+  };
+
+  const isBusy = isRestoring || pending !== null;
+  const message = loginError ?? error;
+
   return (
     <div className="min-h-screen bg-background flex flex-col items-center justify-center p-6">
       <div className="w-full max-w-sm">
@@ -18,21 +41,49 @@ export function LoginScreen({ onLogin }: LoginScreenProps) {
 
         {/* Login Buttons */}
         <div className="space-y-4">
-          <Button 
-            onClick={onLogin}
+          <Button
+            onClick={() => handleLogin('google')}
+            disabled={isBusy || !providers.google}
             className="w-full bg-white text-black border border-gray-300 hover:bg-gray-50 flex items-center justify-center gap-3 py-3"
           >
             <div className="w-5 h-5 bg-red-500 rounded-sm"></div>
             Continue with Google
           </Button>
-          
-          <Button 
-            onClick={onLogin}
+
+          <Button
+            onClick={() => handleLogin('canvas')}
+            disabled={isBusy || !providers.canvas}
             className="w-full bg-orange-500 hover:bg-orange-600 text-white flex items-center justify-center gap-3 py-3"
           >
             <div className="w-5 h-5 bg-white rounded-sm"></div>
             Continue with Canvas
           </Button>
+
+          {providers.mock && (
+            <Button
+              onClick={() => handleLogin('mock')}
+              disabled={isBusy}
+              variant="outline"
+              className="w-full py-3"
+            >
+              Continue with {providers.mock.label}
+            </Button>
+          )}
+
+          {!hasProviders && (
+            <Button
+              onClick={() => handleLogin('offline')}
+              disabled={isBusy}
+              variant="outline"
+              className="w-full py-3"
+            >
+              Continue offline
+            </Button>
+          )}
+
+          {message && (
+            <p className="text-sm text-destructive text-center">{message}</p>
+          )}
         </div>
 
         {/* Footer */}
@@ -44,4 +95,4 @@ export function LoginScreen({ onLogin }: LoginScreenProps) {
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,216 @@
+import { useMemo, useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { ArrowLeft, ChevronDown, ChevronUp, Sparkles } from 'lucide-react';
+import { FuturePersona, PersonaTone } from '../types/Persona';
+import { usePersona } from '../hooks/usePersona';
+import { savePersona, skipPersonaOnboarding } from '../utils/personaStore';
+import { compileSystemPrompt, PERSONA_TONE_LABELS } from '../utils/systemPrompt';
+
+interface PersonaScreenProps {
+  isOnboarding?: boolean;
+  onDone: () => void;
+}
+
+type TargetMode = 'age' | 'date';
+
+const TONES = Object.keys(PERSONA_TONE_LABELS) as PersonaTone[];
+
+export function PersonaScreen({ isOnboarding = false, onDone }: PersonaScreenProps) {
+  const persona = usePersona();
+
+  const [name, setName] = useState(persona?.name ?? '');
+  const [targetMode, setTargetMode] = useState<TargetMode>(persona?.targetDate ? 'date' : 'age');
+  const [targetAge, setTargetAge] = useState(persona?.targetAge?.toString() ?? '');
+  const [targetDate, setTargetDate] = useState(persona?.targetDate ?? '');
+  const [whoTheyBecame, setWhoTheyBecame] = useState(persona?.whoTheyBecame ?? '');
+  const [whatTheyOvercame, setWhatTheyOvercame] = useState(persona?.whatTheyOvercame ?? '');
+  const [values, setValues] = useState(persona?.values.join(', ') ?? '');
+  const [tone, setTone] = useState<PersonaTone>(persona?.tone ?? 'warm');
+  const [showPreview, setShowPreview] = useState(false);
+
+  const draft = useMemo((): Omit<FuturePersona, 'revision' | 'updatedAt'> => {
+    const age = parseInt(targetAge, 10);
+    return {
+      name: name.trim(),
+      targetAge: targetMode === 'age' && age > 0 ? age : undefined,
+      targetDate: targetMode === 'date' && targetDate ? targetDate : undefined,
+      whoTheyBecame: whoTheyBecame.trim(),
+      whatTheyOvercame: whatTheyOvercame.trim(),
+      values: values.split(',').map(v => v.trim()).filter(Boolean),
+      tone,
+    };
+  }, [name, targetMode, targetAge, targetDate, whoTheyBecame, whatTheyOvercame, values, tone]);
+
+  // Preview what the next save would produce
+  const preview = useMemo(
+    () => compileSystemPrompt({ ...draft, revision: (persona?.revision ?? 0) + 1, updatedAt: '' }),
+    [draft, persona]
+  );
+
+  const canSave = draft.whoTheyBecame.length > 0;
+
+  const handleSave = () => {
+    if (!canSave) return;
+    savePersona(draft);
+    onDone();
+  };
+
+  const handleSkip = () => {
+    skipPersonaOnboarding();
+    onDone();
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-4">
+      <div className="max-w-md mx-auto">
+        <div className="flex items-center gap-3 mb-6">
+          {!isOnboarding && (
+            <Button variant="ghost" size="icon" onClick={onDone}>
+              <ArrowLeft className="w-4 h-4" />
+            </Button>
+          )}
+          <div>
+            <h1 className="text-xl font-medium">
+              {isOnboarding ? 'Meet your future self' : 'Future Self'}
+            </h1>
+            <p className="text-sm text-muted-foreground">
+              Describe who you become, and DeJaVu will speak as them.
+            </p>
+          </div>
+        </div>
+
+        <div className="bg-card rounded-xl p-4 mb-4 space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="persona-name">Your name</Label>
+            <Input
+              id="persona-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="What should future you call you?"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Speaking from</Label>
+            <div className="flex gap-2">
+              {(['age', 'date'] as const).map(mode => (
+                <Button
+                  key={mode}
+                  type="button"
+                  size="sm"
+                  variant={targetMode === mode ? 'default' : 'outline'}
+                  onClick={() => setTargetMode(mode)}
+                >
+                  {mode === 'age' ? 'An age' : 'A date'}
+                </Button>
+              ))}
+            </div>
+            {targetMode === 'age' ? (
+              <Input
+                type="number"
+                min={1}
+                value={targetAge}
+                onChange={(e) => setTargetAge(e.target.value)}
+                placeholder="e.g. 30"
+              />
+            ) : (
+              <Input
+                type="date"
+                value={targetDate}
+                onChange={(e) => setTargetDate(e.target.value)}
+              />
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="persona-became">Who you became</Label>
+            <Textarea
+              id="persona-became"
+              value={whoTheyBecame}
+              onChange={(e) => setWhoTheyBecame(e.target.value)}
+              placeholder="A software engineer who ships side projects, sleeps 8 hours and runs every morning..."
+              className="min-h-20"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="persona-overcame">What you overcame</Label>
+            <Textarea
+              id="persona-overcame"
+              value={whatTheyOvercame}
+              onChange={(e) => setWhatTheyOvercame(e.target.value)}
+              placeholder="Procrastination, late nights, starting things and never finishing them..."
+              className="min-h-16"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="persona-values">Values</Label>
+            <Input
+              id="persona-values"
+              value={values}
+              onChange={(e) => setValues(e.target.value)}
+              placeholder="discipline, curiosity, health"
+            />
+            <p className="text-xs text-muted-foreground">Separate with commas</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Tone</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {TONES.map(option => (
+                <Button
+                  key={option}
+                  type="button"
+                  size="sm"
+                  variant={tone === option ? 'default' : 'outline'}
+                  onClick={() => setTone(option)}
+                >
+                  {PERSONA_TONE_LABELS[option]}
+                </Button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {/* Compiled prompt preview */}
+        <div className="bg-card rounded-xl p-4 mb-4">
+          <button
+            className="w-full flex items-center justify-between"
+            onClick={() => setShowPreview(prev => !prev)}
+          >
+            <div className="flex items-center gap-2">
+              <Sparkles className="w-5 h-5 text-purple-500" />
+              <h2 className="font-medium">Prompt preview</h2>
+            </div>
+            {showPreview ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+          </button>
+          {showPreview && (
+            <div className="mt-4">
+              <p className="text-xs text-muted-foreground mb-2">
+                Template v{preview.version} • Persona revision {preview.personaRevision}
+              </p>
+              <pre className="text-xs whitespace-pre-wrap bg-muted rounded-lg p-3 font-mono">
+                {preview.text}
+              </pre>
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-2">
+          <Button onClick={handleSave} disabled={!canSave} className="flex-1">
+            {isOnboarding ? 'Start' : 'Save'}
+          </Button>
+          {isOnboarding && (
+            <Button variant="outline" onClick={handleSkip}>
+              Skip for now
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
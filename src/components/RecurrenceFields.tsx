@@ -0,0 +1,58 @@
+import React from 'react';
+import { Repeat } from 'lucide-react';
+import { Input } from './ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { RecurrenceDraft } from '../utils/recurrence';
+
+interface RecurrenceFieldsProps {
+  value: RecurrenceDraft;
+  onChange: (value: RecurrenceDraft) => void;
+  error?: string | null;
+}
+
+export function RecurrenceFields({ value, onChange, error }: RecurrenceFieldsProps) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Repeat className="w-4 h-4 text-muted-foreground" />
+        <Select value={value.kind} onValueChange={(kind) => onChange({ ...value, kind: kind as RecurrenceDraft['kind'] })}>
+          <SelectTrigger className="flex-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">Does not repeat</SelectItem>
+            <SelectItem value="daily">Every day</SelectItem>
+            <SelectItem value="weekdays">Every weekday</SelectItem>
+            <SelectItem value="weekly">A few times a week</SelectItem>
+            <SelectItem value="rrule">Custom rule</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {value.kind === 'weekly' && (
+        <div className="flex items-center gap-2 text-sm">
+          <Input
+            type="number"
+            min={1}
+            max={7}
+            value={value.timesPerWeek}
+            onChange={(e) => onChange({ ...value, timesPerWeek: Number(e.target.value) })}
+            className="w-20"
+          />
+          times a week
+        </div>
+      )}
+
+      {value.kind === 'rrule' && (
+        <Input
+          value={value.rule}
+          onChange={(e) => onChange({ ...value, rule: e.target.value })}
+          placeholder="FREQ=WEEKLY;BYDAY=MO,WE,FR"
+          className="font-mono text-sm"
+        />
+      )}
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  );
+}
@@ -1,19 +1,114 @@
 import React from 'react';
 import { Switch } from './ui/switch';
 import { Slider } from './ui/slider';
-import { Bell, Link, Palette } from 'lucide-react';
+import { Button } from './ui/button';
+import { Bell, Database, Link, LogOut, Palette, RefreshCw, Sparkles, UserCircle } from 'lucide-react';
+import { usePersona } from '../hooks/usePersona';
+import { useSettings } from '../hooks/useSettings';
+import { useAuth } from '../hooks/useAuth';
+import { useCanvasSync } from '../hooks/useCanvasSync';
+import { BackupRow } from './BackupRow';
+import { CalendarSyncRow } from './CalendarSyncRow';
+import { isCanvasConnected, syncCanvas } from '../utils/canvasSync';
+import { requestNotificationPermission } from '../utils/browserNotifications';
+import { CHECK_IN_INTERVAL_RANGE, REMINDER_LEAD_RANGE } from '../utils/settingsStore';
 
 interface SettingsScreenProps {
-  isDarkMode: boolean;
-  onToggleDarkMode: () => void;
+  onEditPersona: () => void;
+  onSignOut: () => void;
 }
 
-export function SettingsScreen({ isDarkMode, onToggleDarkMode }: SettingsScreenProps) {
+function formatHours(hours: number) {
+  return hours === 1 ? '1 hour' : `${hours} hours`;
+}
+
+function CanvasSyncRow() {
+  const canvas = useCanvasSync();
+  const isConnected = isCanvasConnected();
+
+  const description = !isConnected
+    ? 'Sign in with Canvas to import your courses'
+    : canvas.status === 'syncing'
+      ? 'Syncing courses and assignments...'
+      : canvas.status === 'error'
+        ? canvas.error
+        : canvas.lastSyncedAt
+          ? `Last synced ${new Date(canvas.lastSyncedAt).toLocaleString()}`
+          : 'Import courses as outputs and assignments as goals';
+
+  return (
+    <div className="flex items-center justify-between gap-4">
+      <div className="min-w-0">
+        <h3 className="font-medium">Canvas</h3>
+        <p className={`text-sm ${canvas.status === 'error' ? 'text-destructive' : 'text-muted-foreground'}`}>
+          {description}
+        </p>
+      </div>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => void syncCanvas().catch(() => undefined)}
+        disabled={!isConnected || canvas.status === 'syncing'}
+        className="flex items-center gap-1"
+      >
+        <RefreshCw className={`w-4 h-4 ${canvas.status === 'syncing' ? 'animate-spin' : ''}`} />
+        Sync
+      </Button>
+    </div>
+  );
+}
+
+export function SettingsScreen({ onEditPersona, onSignOut }: SettingsScreenProps) {
+  const persona = usePersona();
+  const [settings, updateSettings] = useSettings();
+  const { session } = useAuth();
+
   return (
     <div className="min-h-screen bg-background p-4">
       <div className="max-w-md mx-auto">
         <h1 className="text-xl font-medium mb-6">Settings</h1>
 
+        {/* Account Section */}
+        <div className="bg-card rounded-xl p-4 mb-4">
+          <div className="flex items-center gap-2 mb-4">
+            <UserCircle className="w-5 h-5 text-purple-500" />
+            <h2 className="font-medium">Account</h2>
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <div className="min-w-0">
+              <h3 className="font-medium truncate">{session?.user.name ?? 'Signed in'}</h3>
+              <p className="text-sm text-muted-foreground truncate">
+                {session?.user.email ?? (session?.provider === 'offline' ? 'Stored on this device only' : session?.provider)}
+              </p>
+            </div>
+            <Button variant="outline" size="sm" onClick={onSignOut} className="flex items-center gap-1">
+              <LogOut className="w-4 h-4" />
+              Sign out
+            </Button>
+          </div>
+        </div>
+
+        {/* Future Self Section */}
+        <div className="bg-card rounded-xl p-4 mb-4">
+          <div className="flex items-center gap-2 mb-4">
+            <Sparkles className="w-5 h-5 text-purple-500" />
+            <h2 className="font-medium">Future Self</h2>
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <div className="min-w-0">
+              <h3 className="font-medium">Persona</h3>
+              <p className="text-sm text-muted-foreground truncate">
+                {persona ? persona.whoTheyBecame : 'Not set up yet'}
+              </p>
+            </div>
+            <Button variant="outline" size="sm" onClick={onEditPersona}>
+              {persona ? 'Edit' : 'Set up'}
+            </Button>
+          </div>
+        </div>
+
         {/* Notifications Section */}
         <div className="bg-card rounded-xl p-4 mb-4">
           <div className="flex items-center gap-2 mb-4">
@@ -27,19 +122,27 @@ export function SettingsScreen({ isDarkMode, onToggleDarkMode }: SettingsScreenP
                 <h3 className="font-medium">Enable Notifications</h3>
                 <p className="text-sm text-muted-foreground">Receive proactive check-ins and reminders</p>
               </div>
-              <Switch defaultChecked />
+              <Switch
+                checked={settings.notificationsEnabled}
+                onCheckedChange={(checked) => {
+                  updateSettings({ notificationsEnabled: checked });
+                  if (checked) void requestNotificationPermission();
+                }}
+              />
             </div>
 
             <div>
               <div className="flex items-center justify-between mb-2">
                 <h3 className="font-medium">Check in randomly once every</h3>
-                <span className="text-sm text-muted-foreground">1 hour</span>
+                <span className="text-sm text-muted-foreground">{formatHours(settings.checkInIntervalHours)}</span>
               </div>
               <Slider 
-                defaultValue={[1]} 
-                max={24} 
-                min={1} 
-                step={1}
+                value={[settings.checkInIntervalHours]} 
+                onValueChange={([hours]) => updateSettings({ checkInIntervalHours: hours })}
+                max={CHECK_IN_INTERVAL_RANGE.max} 
+                min={CHECK_IN_INTERVAL_RANGE.min} 
+                step={CHECK_IN_INTERVAL_RANGE.step}
+                disabled={!settings.notificationsEnabled}
                 className="w-full"
               />
             </div>
@@ -47,13 +150,15 @@ export function SettingsScreen({ isDarkMode, onToggleDarkMode }: SettingsScreenP
             <div>
               <div className="flex items-center justify-between mb-2">
                 <h3 className="font-medium">Reminder Time</h3>
-                <span className="text-sm text-muted-foreground">15 minutes before deadline</span>
+                <span className="text-sm text-muted-foreground">{settings.reminderLeadMinutes} minutes before deadline</span>
               </div>
               <Slider 
-                defaultValue={[15]} 
-                max={60} 
-                min={5} 
-                step={5}
+                value={[settings.reminderLeadMinutes]} 
+                onValueChange={([minutes]) => updateSettings({ reminderLeadMinutes: minutes })}
+                max={REMINDER_LEAD_RANGE.max} 
+                min={REMINDER_LEAD_RANGE.min} 
+                step={REMINDER_LEAD_RANGE.step}
+                disabled={!settings.notificationsEnabled}
                 className="w-full"
               />
             </div>
@@ -63,7 +168,10 @@ export function SettingsScreen({ isDarkMode, onToggleDarkMode }: SettingsScreenP
                 <h3 className="font-medium">Sound</h3>
                 <p className="text-sm text-muted-foreground">Play notification sounds</p>
               </div>
-              <Switch defaultChecked />
+              <Switch
+                checked={settings.sound}
+                onCheckedChange={(checked) => updateSettings({ sound: checked })}
+              />
             </div>
 
             <div className="flex items-center justify-between">
@@ -71,7 +179,10 @@ export function SettingsScreen({ isDarkMode, onToggleDarkMode }: SettingsScreenP
                 <h3 className="font-medium">Vibration</h3>
                 <p className="text-sm text-muted-foreground">Vibrate on notifications</p>
               </div>
-              <Switch />
+              <Switch
+                checked={settings.vibration}
+                onCheckedChange={(checked) => updateSettings({ vibration: checked })}
+              />
             </div>
           </div>
         </div>
@@ -84,22 +195,34 @@ export function SettingsScreen({ isDarkMode, onToggleDarkMode }: SettingsScreenP
           </div>
 
           <div className="space-y-4">
+            <CanvasSyncRow />
+
             <div className="flex items-center justify-between">
               <div>
                 <h3 className="font-medium">Email Sync</h3>
                 <p className="text-sm text-muted-foreground">Connect your email for better insights</p>
               </div>
-              <Switch />
+              <Switch
+                checked={settings.emailSync}
+                onCheckedChange={(checked) => updateSettings({ emailSync: checked })}
+              />
             </div>
 
-            <div className="flex items-center justify-between">
-              <div>
-                <h3 className="font-medium">Calendar Sync</h3>
-                <p className="text-sm text-muted-foreground">Sync goals with your calendar</p>
-              </div>
-              <Switch defaultChecked />
-            </div>
+            <CalendarSyncRow
+              enabled={settings.calendarSync}
+              onEnabledChange={(checked) => updateSettings({ calendarSync: checked })}
+            />
+          </div>
+        </div>
+
+        {/* Data Section */}
+        <div className="bg-card rounded-xl p-4 mb-4">
+          <div className="flex items-center gap-2 mb-4">
+            <Database className="w-5 h-5 text-purple-500" />
+            <h2 className="font-medium">Your Data</h2>
           </div>
+
+          <BackupRow />
         </div>
 
         {/* Appearance Section */}
@@ -112,8 +235,8 @@ export function SettingsScreen({ isDarkMode, onToggleDarkMode }: SettingsScreenP
           <div className="flex items-center justify-between">
             <h3 className="font-medium">Dark Mode</h3>
             <Switch 
-              checked={isDarkMode} 
-              onCheckedChange={onToggleDarkMode}
+              checked={settings.darkMode} 
+              onCheckedChange={(checked) => updateSettings({ darkMode: checked })}
             />
           </div>
         </div>
@@ -0,0 +1,108 @@
+import React from 'react';
+import {
+  Announcements,
+  closestCenter,
+  DndContext,
+  DragEndEvent,
+  KeyboardSensor,
+  PointerSensor,
+  UniqueIdentifier,
+  useSensor,
+  useSensors,
+} from '@dnd-kit/core';
+import { SortableContext, sortableKeyboardCoordinates, useSortable, verticalListSortingStrategy } from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+import { GripVertical } from 'lucide-react';
+import { moveItem } from '../utils/order';
+
+interface SortableListProps<T extends { id: string }> {
+  items: T[];
+  // Names an item for the drag handle and screen reader announcements
+  getLabel: (item: T) => string;
+  onReorder: (orderedIds: string[], moved: T) => void;
+  // `handle` is the drag handle, to be placed wherever suits the item
+  renderItem: (item: T, handle: React.ReactNode) => React.ReactNode;
+  className?: string;
+}
+
+function SortableItem({ id, label, children }: {
+  id: string;
+  label: string;
+  children: (handle: React.ReactNode) => React.ReactNode;
+}) {
+  const { attributes, listeners, setNodeRef, setActivatorNodeRef, transform, transition, isDragging } = useSortable({ id });
+
+  const handle = (
+    <button
+      ref={setActivatorNodeRef}
+      {...attributes}
+      {...listeners}
+      aria-label={`Move "${label}"`}
+      className="touch-none cursor-grab active:cursor-grabbing text-muted-foreground hover:text-foreground rounded focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+    >
+      <GripVertical className="w-4 h-4" />
+    </button>
+  );
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={{ transform: CSS.Transform.toString(transform), transition }}
+      className={isDragging ? 'relative z-10 opacity-80' : undefined}
+    >
+      {children(handle)}
+    </div>
+  );
+}
+
+// A vertical list reordered by dragging each item's handle, or from the
+// keyboard: focus a handle, press Space, move with the arrow keys and press
+// Space again to drop (Escape puts it back)
+export function SortableList<T extends { id: string }>({ items, getLabel, onReorder, renderItem, className }: SortableListProps<T>) {
+  const sensors = useSensors(
+    // A few pixels of slack so a tap on the handle isn't taken for a drag
+    useSensor(PointerSensor, { activationConstraint: { distance: 4 } }),
+    useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
+  );
+
+  const indexOf = (id: UniqueIdentifier) => items.findIndex(item => item.id === id);
+  const labelOf = (id: UniqueIdentifier) => {
+    const item = items[indexOf(id)];
+    return item ? `"${getLabel(item)}"` : 'The item';
+  };
+  const position = (id: UniqueIdentifier | undefined) => `position ${id === undefined ? '?' : indexOf(id) + 1} of ${items.length}`;
+
+  const announcements: Announcements = {
+    onDragStart: ({ active }) => `Picked up ${labelOf(active.id)} at ${position(active.id)}.`,
+    onDragOver: ({ active, over }) => (over ? `${labelOf(active.id)} moved to ${position(over.id)}.` : undefined),
+    onDragEnd: ({ active, over }) => (over ? `${labelOf(active.id)} dropped at ${position(over.id)}.` : `${labelOf(active.id)} dropped.`),
+    onDragCancel: ({ active }) => `Moving cancelled; ${labelOf(active.id)} is back at ${position(active.id)}.`,
+  };
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    if (!over || active.id === over.id) return;
+    const from = indexOf(active.id);
+    const to = indexOf(over.id);
+    if (from === -1 || to === -1) return;
+    onReorder(moveItem(items, from, to).map(item => item.id), items[from]);
+  };
+
+  return (
+    <DndContext
+      sensors={sensors}
+      collisionDetection={closestCenter}
+      onDragEnd={handleDragEnd}
+      accessibility={{ announcements }}
+    >
+      <SortableContext items={items.map(item => item.id)} strategy={verticalListSortingStrategy}>
+        <div className={className}>
+          {items.map(item => (
+            <SortableItem key={item.id} id={item.id} label={getLabel(item)}>
+              {handle => renderItem(item, handle)}
+            </SortableItem>
+          ))}
+        </div>
+      </SortableContext>
+    </DndContext>
+  );
+}
@@ -0,0 +1,28 @@
+import React from 'react';
+import { Flame, Snowflake } from 'lucide-react';
+import { StreakState } from '../utils/streaks';
+
+interface StreakBadgeProps {
+  streak: StreakState;
+  // Shown next to the streak when given
+  freezes?: number;
+}
+
+export function StreakBadge({ streak, freezes }: StreakBadgeProps) {
+  const label = `${streak.current} ${streak.unit} streak${streak.atRisk ? ', not done yet' : ''}. Longest: ${streak.longest}.`;
+
+  return (
+    <span className="inline-flex items-center gap-2 text-xs font-medium" title={label} aria-label={label}>
+      <span className={`inline-flex items-center gap-0.5 ${streak.current > 0 ? 'text-orange-500' : 'text-muted-foreground'} ${streak.atRisk ? 'opacity-60' : ''}`}>
+        <Flame className="w-3.5 h-3.5" />
+        {streak.current}
+      </span>
+      {freezes !== undefined && freezes > 0 && (
+        <span className="inline-flex items-center gap-0.5 text-sky-500" title={`${freezes} streak ${freezes === 1 ? 'freeze' : 'freezes'}`}>
+          <Snowflake className="w-3.5 h-3.5" />
+          {freezes}
+        </span>
+      )}
+    </span>
+  );
+}
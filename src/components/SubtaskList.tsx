@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { Check, Plus, X } from 'lucide-react';
+import { Input } from './ui/input';
+import { Subtask } from '../types/Goal';
+import { isSubtaskDone, MAX_SUBTASK_DEPTH } from '../utils/subtasks';
+
+interface SubtaskListProps {
+  subtasks: Subtask[];
+  onToggle: (id: string) => void;
+  onRemove: (id: string) => void;
+  // parentId is null for a top-level subtask
+  onAdd: (parentId: string | null, title: string) => void;
+  depth?: number;
+}
+
+function AddSubtaskInput({ onAdd, onCancel, autoFocus }: { onAdd: (title: string) => void; onCancel?: () => void; autoFocus?: boolean }) {
+  const [title, setTitle] = useState('');
+
+  return (
+    <Input
+      autoFocus={autoFocus}
+      value={title}
+      onChange={(e) => setTitle(e.target.value)}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter' && title.trim()) {
+          onAdd(title.trim());
+          setTitle('');
+        }
+        if (e.key === 'Escape') onCancel?.();
+      }}
+      onBlur={() => !title.trim() && onCancel?.()}
+      placeholder="Add a step and press Enter"
+      className="h-7 text-sm"
+    />
+  );
+}
+
+function SubtaskItem({ subtask, depth, ...handlers }: Omit<SubtaskListProps, 'subtasks' | 'depth'> & { subtask: Subtask; depth: number }) {
+  const [isAdding, setIsAdding] = useState(false);
+  const done = isSubtaskDone(subtask);
+
+  return (
+    <li>
+      <div className="group flex items-center gap-2 py-0.5">
+        <button
+          onClick={() => handlers.onToggle(subtask.id)}
+          aria-label={done ? `Reopen "${subtask.title}"` : `Complete "${subtask.title}"`}
+          className={`w-4 h-4 shrink-0 rounded border flex items-center justify-center ${
+            done ? 'bg-green-500 border-green-500' : 'border-muted-foreground hover:border-purple-500'
+          }`}
+        >
+          {done && <Check className="w-3 h-3 text-white" />}
+        </button>
+        <span className={`flex-1 text-sm ${done ? 'line-through text-muted-foreground' : ''}`}>{subtask.title}</span>
+        {depth < MAX_SUBTASK_DEPTH - 1 && (
+          <button
+            onClick={() => setIsAdding(true)}
+            aria-label={`Add a step to "${subtask.title}"`}
+            className="opacity-0 group-hover:opacity-100 focus:opacity-100 text-muted-foreground hover:text-foreground"
+          >
+            <Plus className="w-3 h-3" />
+          </button>
+        )}
+        <button
+          onClick={() => handlers.onRemove(subtask.id)}
+          aria-label={`Remove "${subtask.title}"`}
+          className="opacity-0 group-hover:opacity-100 focus:opacity-100 text-muted-foreground hover:text-destructive"
+        >
+          <X className="w-3 h-3" />
+        </button>
+      </div>
+      {((subtask.subtasks && subtask.subtasks.length > 0) || isAdding) && (
+        <div className="pl-6">
+          {subtask.subtasks && subtask.subtasks.length > 0 && (
+            <SubtaskList subtasks={subtask.subtasks} depth={depth + 1} {...handlers} />
+          )}
+          {isAdding && (
+            <AddSubtaskInput
+              autoFocus
+              onAdd={(title) => handlers.onAdd(subtask.id, title)}
+              onCancel={() => setIsAdding(false)}
+            />
+          )}
+        </div>
+      )}
+    </li>
+  );
+}
+
+export function SubtaskList({ subtasks, depth = 0, ...handlers }: SubtaskListProps) {
+  return (
+    <div className="space-y-1">
+      <ul>
+        {subtasks.map(subtask => (
+          <SubtaskItem key={subtask.id} subtask={subtask} depth={depth} {...handlers} />
+        ))}
+      </ul>
+      {depth === 0 && <AddSubtaskInput onAdd={(title) => handlers.onAdd(null, title)} />}
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import { Book, Brain, Briefcase, Code, Dumbbell, Heart, LucideIcon, Music, Sprout, Target, Wallet } from 'lucide-react';
+import { CategoryColor, CategoryIcon, Goal } from '../types/Goal';
+
+// Class names are spelled out in full so Tailwind keeps them in the build.
+interface ColorClasses {
+  label: string;
+  swatch: string;
+  ring: string;
+  icon: string;
+  border: string;
+}
+
+export const CATEGORY_COLORS: Record<CategoryColor, ColorClasses> = {
+  purple: { label: 'Purple', swatch: 'bg-purple-500', ring: 'stroke-purple-500', icon: 'text-purple-500', border: 'border-purple-500/50' },
+  blue: { label: 'Blue', swatch: 'bg-blue-500', ring: 'stroke-blue-500', icon: 'text-blue-500', border: 'border-blue-500/50' },
+  green: { label: 'Green', swatch: 'bg-green-500', ring: 'stroke-green-500', icon: 'text-green-500', border: 'border-green-500/50' },
+  amber: { label: 'Amber', swatch: 'bg-amber-500', ring: 'stroke-amber-500', icon: 'text-amber-500', border: 'border-amber-500/50' },
+  rose: { label: 'Rose', swatch: 'bg-rose-500', ring: 'stroke-rose-500', icon: 'text-rose-500', border: 'border-rose-500/50' },
+  slate: { label: 'Slate', swatch: 'bg-slate-500', ring: 'stroke-slate-500', icon: 'text-slate-500', border: 'border-slate-500/50' },
+};
+
+export const CATEGORY_ICONS: Record<CategoryIcon, { label: string; Icon: LucideIcon }> = {
+  target: { label: 'Target', Icon: Target },
+  book: { label: 'Study', Icon: Book },
+  dumbbell: { label: 'Fitness', Icon: Dumbbell },
+  briefcase: { label: 'Work', Icon: Briefcase },
+  heart: { label: 'Health', Icon: Heart },
+  brain: { label: 'Mind', Icon: Brain },
+  wallet: { label: 'Money', Icon: Wallet },
+  music: { label: 'Music', Icon: Music },
+  code: { label: 'Code', Icon: Code },
+  sprout: { label: 'Growth', Icon: Sprout },
+};
+
+export const DEFAULT_CATEGORY_COLOR: CategoryColor = 'purple';
+
+export function categoryColor(goal: Goal) {
+  return CATEGORY_COLORS[goal.color ?? DEFAULT_CATEGORY_COLOR];
+}
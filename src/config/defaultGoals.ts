@@ -0,0 +1,62 @@
+import { Goal, IndividualGoal } from '../types/Goal';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// goalCount/completedCount are derived from the goal store at render time.
+export const DEFAULT_CATEGORIES: Goal[] = [
+  { id: '1', title: 'CSE201 Project 4', goalCount: 0, completedCount: 0, type: 'output' },
+  { id: '2', title: 'Complete database overhaul', goalCount: 0, completedCount: 0, type: 'output' },
+  { id: '3', title: '$5K in MRR', goalCount: 0, completedCount: 0, type: 'output' },
+  { id: '4', title: 'Rest and Sleep', goalCount: 0, completedCount: 0, type: 'input' },
+  { id: '5', title: 'Hydration and Nutrition', goalCount: 0, completedCount: 0, type: 'input' },
+  { id: '6', title: 'Recreation', goalCount: 0, completedCount: 0, type: 'input' },
+];
+
+// Starter goals for the seeded categories, keyed by categoryId. Categories not
+// listed here (including every category created in the Lab) start empty.
+export function createDefaultIndividualGoals(now = Date.now()): Record<string, IndividualGoal[]> {
+  return {
+    '1': [
+      {
+        id: '1',
+        title: 'Complete project proposal',
+        description: 'Write and submit the initial project proposal',
+        deadline: new Date(now + 7 * DAY_MS),
+        completed: true,
+        categoryId: '1'
+      },
+      {
+        id: '2',
+        title: 'Set up development environment',
+        description: 'Install necessary tools and dependencies',
+        deadline: new Date(now + 3 * DAY_MS),
+        completed: true,
+        categoryId: '1'
+      },
+      {
+        id: '3',
+        title: 'Design database schema',
+        description: 'Create the database structure and relationships',
+        deadline: new Date(now + 5 * DAY_MS),
+        completed: false,
+        categoryId: '1'
+      },
+      {
+        id: '4',
+        title: 'Implement core features',
+        description: 'Build the main functionality of the application',
+        deadline: new Date(now + 14 * DAY_MS),
+        completed: false,
+        categoryId: '1'
+      },
+      {
+        id: '5',
+        title: 'Testing and debugging',
+        description: 'Thoroughly test the application and fix any issues',
+        deadline: new Date(now + 21 * DAY_MS),
+        completed: false,
+        categoryId: '1'
+      }
+    ],
+  };
+}
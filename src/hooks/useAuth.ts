@@ -0,0 +1,11 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { getAuthState, restoreSession, subscribeToAuth } from '../utils/authService';
+
+// Current auth state; restores the saved session on first use.
+export function useAuth() {
+  useEffect(() => {
+    void restoreSession();
+  }, []);
+
+  return useSyncExternalStore(subscribeToAuth, getAuthState);
+}
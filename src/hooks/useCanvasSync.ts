@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from 'react';
+import { getCanvasSyncInfo, subscribeToCanvasSync } from '../utils/canvasSync';
+
+export function useCanvasSync() {
+  return useSyncExternalStore(subscribeToCanvasSync, getCanvasSyncInfo);
+}
@@ -0,0 +1,24 @@
+import { useMemo, useSyncExternalStore } from 'react';
+import { Goal } from '../types/Goal';
+import { getCategories, setCategories, subscribeToCategories } from '../utils/categoryStore';
+import { withGoalCounts } from '../utils/goalStore';
+import { useAllIndividualGoals } from './useIndividualGoals';
+
+// useState-like access to the persisted Lab categories.
+export function useCategories() {
+  const categories = useSyncExternalStore(subscribeToCategories, getCategories);
+  return [categories, setCategories] as const;
+}
+
+// A single category with live counts, or null once it no longer exists.
+export function useCategory(id: string | undefined): Goal | null {
+  const [categories] = useCategories();
+  const individualGoalsByCategory = useAllIndividualGoals();
+  const category = id ? categories.find(c => c.id === id) : undefined;
+  const individualGoals = category ? individualGoalsByCategory[category.id] : undefined;
+
+  return useMemo(
+    () => (category ? withGoalCounts(category, individualGoals) : null),
+    [category, individualGoals]
+  );
+}
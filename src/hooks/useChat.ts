@@ -0,0 +1,182 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Message } from '../types/Chat';
+import { getErrorMessage, isAbortError, streamChatMessage } from '../utils/aiService';
+import { loadChatThread, saveChatThread } from '../utils/chatStore';
+
+// Messages rendered at once; older ones are revealed a page at a time
+export const CHAT_PAGE_SIZE = 30;
+
+interface UseChatOptions {
+  threadId: string;
+  // Opens an empty (or freshly reset) thread
+  welcomeMessage: string;
+  systemPrompt?: string;
+}
+
+interface ChatThread {
+  id: string;
+  messages: Message[];
+}
+
+function createWelcome(content: string): Message {
+  return { id: Date.now().toString(), content, sender: 'ai', timestamp: new Date() };
+}
+
+function openThread(threadId: string, welcomeMessage: string): ChatThread {
+  const messages = loadChatThread(threadId);
+  return { id: threadId, messages: messages.length > 0 ? messages : [createWelcome(welcomeMessage)] };
+}
+
+export function useChat({ threadId, welcomeMessage, systemPrompt }: UseChatOptions) {
+  const [thread, setThread] = useState(() => openThread(threadId, welcomeMessage));
+  const [visibleCount, setVisibleCount] = useState(CHAT_PAGE_SIZE);
+  const [isResponding, setIsResponding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  // The thread on screen, or null once the chat has unmounted
+  const shownThreadRef = useRef<string | null>(threadId);
+
+  // Switching conversations (e.g. another category) swaps in its history
+  if (thread.id !== threadId) {
+    setThread(openThread(threadId, welcomeMessage));
+    setVisibleCount(CHAT_PAGE_SIZE);
+    setError(null);
+  }
+
+  const messages = thread.messages;
+
+  const setMessages = useCallback((update: (prev: Message[]) => Message[]) => {
+    setThread(prev => ({ ...prev, messages: update(prev.messages) }));
+  }, []);
+
+  // Persist once a reply has settled rather than on every streamed token
+  useEffect(() => {
+    if (thread.messages.some(m => m.status === 'streaming')) return;
+    saveChatThread(thread.id, thread.messages);
+  }, [thread]);
+
+  // Drop any in-flight request when the chat switches threads or unmounts
+  useEffect(() => {
+    shownThreadRef.current = threadId;
+    return () => {
+      shownThreadRef.current = null;
+      abortRef.current?.abort();
+    };
+  }, [threadId]);
+
+  const requestReply = useCallback(async (history: Message[]) => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setIsResponding(true);
+    setError(null);
+    // The save effect waits for the reply to settle; don't make the user's
+    // message wait with it
+    const requestThreadId = threadId;
+    saveChatThread(requestThreadId, history);
+
+    const replyId = (Date.now() + 1).toString();
+    let content = '';
+    const updateReply = (update: (reply: Message) => Message) => {
+      setMessages(prev => prev.map(m => (m.id === replyId ? update(m) : m)));
+    };
+
+    setMessages(prev => [
+      ...prev,
+      { id: replyId, content: '', sender: 'ai', timestamp: new Date(), status: 'streaming' }
+    ]);
+
+    try {
+      await streamChatMessage(history, {
+        systemPrompt,
+        signal: controller.signal,
+        onToken: token => {
+          content += token;
+          updateReply(reply => ({ ...reply, content: reply.content + token }));
+        }
+      });
+      updateReply(reply => ({ ...reply, status: undefined, timestamp: new Date() }));
+    } catch (e) {
+      if (!isAbortError(e)) {
+        setError(getErrorMessage(e));
+      }
+      // Keep whatever arrived before the stream ended, flagged as cut short.
+      // A thread no longer on screen is saved straight away, as nothing
+      // here will save it later.
+      if (shownThreadRef.current !== requestThreadId) {
+        const partial: Message = { id: replyId, content, sender: 'ai', timestamp: new Date(), status: 'incomplete' };
+        saveChatThread(requestThreadId, content ? [...history, partial] : history);
+        return;
+      }
+      setMessages(prev => prev.flatMap(m => {
+        if (m.id !== replyId) return [m];
+        return m.content ? [{ ...m, status: 'incomplete' as const }] : [];
+      }));
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsResponding(false);
+      }
+    }
+  }, [threadId, systemPrompt, setMessages]);
+
+  const sendMessage = useCallback((text: string) => {
+    if (!text.trim() || isResponding) return;
+
+    const newMessage: Message = {
+      id: Date.now().toString(),
+      content: text,
+      sender: 'user',
+      timestamp: new Date()
+    };
+
+    const history = [...messages, newMessage];
+    setMessages(() => history);
+    void requestReply(history);
+  }, [messages, isResponding, requestReply, setMessages]);
+
+  // Re-asks for a reply after an error, replacing any partial answer
+  const retry = useCallback(() => {
+    const history = [...messages];
+    while (history.length > 0 && history[history.length - 1].status === 'incomplete') {
+      history.pop();
+    }
+    setMessages(() => history);
+    void requestReply(history);
+  }, [messages, requestReply, setMessages]);
+
+  const stop = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
+
+  // Explicitly wipes the stored conversation back to the welcome message
+  const resetConversation = useCallback(() => {
+    abortRef.current?.abort();
+    setMessages(() => [createWelcome(welcomeMessage)]);
+    setVisibleCount(CHAT_PAGE_SIZE);
+    setError(null);
+  }, [welcomeMessage, setMessages]);
+
+  const updateMessage = useCallback((id: string, patch: Partial<Message>) => {
+    setMessages(prev => prev.map(m => (m.id === id ? { ...m, ...patch } : m)));
+  }, [setMessages]);
+
+  const showEarlier = useCallback(() => {
+    setVisibleCount(prev => prev + CHAT_PAGE_SIZE);
+  }, []);
+
+  return {
+    messages,
+    visibleMessages: messages.slice(-visibleCount),
+    hasEarlier: messages.length > visibleCount,
+    showEarlier,
+    isResponding,
+    error,
+    sendMessage,
+    retry,
+    stop,
+    resetConversation,
+    updateMessage
+  };
+}
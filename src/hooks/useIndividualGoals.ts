@@ -0,0 +1,30 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { IndividualGoal } from '../types/Goal';
+import {
+  getAllIndividualGoals,
+  getIndividualGoals,
+  setIndividualGoals,
+  subscribeToIndividualGoals,
+} from '../utils/goalStore';
+
+// useState-like access to the persisted goal list of a single category.
+export function useIndividualGoals(categoryId: string) {
+  const goals = useSyncExternalStore(
+    subscribeToIndividualGoals,
+    () => getIndividualGoals(categoryId)
+  );
+
+  const setGoals = useCallback(
+    (update: IndividualGoal[] | ((prev: IndividualGoal[]) => IndividualGoal[])) => {
+      setIndividualGoals(categoryId, update);
+    },
+    [categoryId]
+  );
+
+  return [goals, setGoals] as const;
+}
+
+// Every category's goals, for screens that summarise across categories.
+export function useAllIndividualGoals() {
+  return useSyncExternalStore(subscribeToIndividualGoals, getAllIndividualGoals);
+}
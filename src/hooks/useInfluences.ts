@@ -0,0 +1,16 @@
+import { useMemo, useSyncExternalStore } from 'react';
+import { getInfluences, resolveInfluences, setInfluences, subscribeToInfluences } from '../utils/influenceStore';
+import { useCategories } from './useCategories';
+
+// useState-like access to the persisted input -> output influences.
+export function useInfluences() {
+  const influences = useSyncExternalStore(subscribeToInfluences, getInfluences);
+  return [influences, setInfluences] as const;
+}
+
+// The influences that currently apply, with their categories looked up.
+export function useInfluenceLinks() {
+  const [influences] = useInfluences();
+  const [categories] = useCategories();
+  return useMemo(() => resolveInfluences(influences, categories), [influences, categories]);
+}
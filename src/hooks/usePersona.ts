@@ -0,0 +1,28 @@
+import { useMemo, useSyncExternalStore } from 'react';
+import { getPersona, subscribeToPersona } from '../utils/personaStore';
+import { compileSystemPrompt, PromptContext } from '../utils/systemPrompt';
+import { habitStreaks } from '../utils/streaks';
+import { useInfluenceLinks } from './useInfluences';
+import { useAllIndividualGoals } from './useIndividualGoals';
+import { useStreaks } from './useStreaks';
+
+export function usePersona() {
+  return useSyncExternalStore(subscribeToPersona, getPersona);
+}
+
+// The compiled prompt for a chat, recompiled whenever the persona, the Lab's
+// influences or a habit's streak change.
+export function useSystemPrompt({ category, categories }: Pick<PromptContext, 'category' | 'categories'> = {}) {
+  const persona = usePersona();
+  const influences = useInfluenceLinks();
+  const goalsByCategory = useAllIndividualGoals();
+  const summary = useStreaks();
+  const streaks = useMemo(
+    () => ({ overall: summary.overall, habits: habitStreaks(Object.values(goalsByCategory).flat(), summary) }),
+    [summary, goalsByCategory]
+  );
+  return useMemo(
+    () => compileSystemPrompt(persona, { category, categories, influences, streaks }),
+    [persona, category, categories, influences, streaks]
+  );
+}
@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from 'react';
+import { getPinnedPositions, setPinnedPositions, subscribeToPinnedPositions } from '../utils/layoutStore';
+
+// useState-like access to the Lab nodes the user has dragged into place.
+export function usePinnedPositions() {
+  const pinned = useSyncExternalStore(subscribeToPinnedPositions, getPinnedPositions);
+  return [pinned, setPinnedPositions] as const;
+}
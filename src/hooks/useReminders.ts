@@ -0,0 +1,18 @@
+import { useEffect, useRef } from 'react';
+import { Reminder } from '../utils/reminders';
+import { startReminderService } from '../utils/reminderService';
+import { browserReminderNotifier } from '../utils/browserNotifications';
+
+// Runs deadline reminders while `enabled` (i.e. someone is signed in).
+export function useReminders(enabled: boolean, onOpen: (reminder: Reminder) => void) {
+  const onOpenRef = useRef(onOpen);
+  onOpenRef.current = onOpen;
+
+  useEffect(() => {
+    if (!enabled) return;
+    return startReminderService({
+      notifier: browserReminderNotifier,
+      onOpen: reminder => onOpenRef.current(reminder),
+    });
+  }, [enabled]);
+}
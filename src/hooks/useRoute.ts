@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from 'react';
+import { getRoute, subscribeToRoute } from '../utils/router';
+
+export function useRoute() {
+  return useSyncExternalStore(subscribeToRoute, getRoute);
+}
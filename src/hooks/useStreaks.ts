@@ -0,0 +1,17 @@
+import { useMemo } from 'react';
+import { computeStreaks } from '../utils/streaks';
+import { useCategories } from './useCategories';
+import { useAllIndividualGoals } from './useIndividualGoals';
+import { useToday } from './useToday';
+
+// Streaks for every habit and overall, replayed whenever a goal changes and
+// each new day. Habits in archived categories don't count.
+export function useStreaks() {
+  const [categories] = useCategories();
+  const goalsByCategory = useAllIndividualGoals();
+  const now = useToday();
+  return useMemo(() => {
+    const active = categories.filter(category => !category.archived);
+    return computeStreaks(active.flatMap(category => goalsByCategory[category.id] ?? []), now);
+  }, [categories, goalsByCategory, now]);
+}
@@ -0,0 +1,26 @@
+import { useEffect, useState } from 'react';
+import { addDays } from '../utils/recurrence';
+import { GRACE_HOURS } from '../utils/streaks';
+
+// The small hours still count toward yesterday's check-ins, so what "today"
+// means changes when the grace period ends as well as at midnight
+function nextBoundary(now: Date) {
+  const graceEnd = new Date(now.getFullYear(), now.getMonth(), now.getDate(), GRACE_HOURS);
+  return graceEnd > now ? graceEnd : addDays(now, 1);
+}
+
+// The current time, refreshed at midnight and at the end of the grace period
+// so anything worked out per day re-renders without waiting for its data to
+// change. The same Date is returned in between, so it is safe as a dependency.
+export function useToday() {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const current = new Date();
+    // A second late, so the timer can't fire just before the boundary
+    const timer = setTimeout(() => setNow(new Date()), nextBoundary(current).getTime() - current.getTime() + 1000);
+    return () => clearTimeout(timer);
+  }, [now]);
+
+  return now;
+}
@@ -0,0 +1,29 @@
+export type AuthProviderId = 'google' | 'canvas' | 'mock' | 'offline';
+
+export interface AuthProviderConfig {
+  id: AuthProviderId;
+  label: string;
+  clientId: string;
+  authorizeUrl: string;
+  tokenUrl: string;
+  // Omitted when the token response already identifies the user (Canvas)
+  userInfoUrl?: string;
+  scope: string;
+  // Provider-specific authorize parameters, e.g. to get a refresh token
+  extraParams?: Record<string, string>;
+}
+
+export interface AuthUser {
+  id: string;
+  name?: string;
+  email?: string;
+}
+
+export interface AuthSession {
+  provider: AuthProviderId;
+  user: AuthUser;
+  accessToken: string;
+  refreshToken?: string;
+  // Epoch ms; null for sessions that never expire (offline use)
+  expiresAt: number | null;
+}
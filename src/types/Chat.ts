@@ -0,0 +1,16 @@
+export interface Message {
+  id: string;
+  content: string;
+  sender: 'user' | 'ai';
+  timestamp: Date;
+  // 'streaming' while tokens are arriving, 'incomplete' if the reply was
+  // stopped or failed part-way through
+  status?: 'streaming' | 'incomplete';
+  // Outcome of Lab changes proposed in this message (hub chat only)
+  proposal?: 'applied' | 'dismissed';
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
@@ -1,8 +1,35 @@
+export type CategoryColor = 'purple' | 'blue' | 'green' | 'amber' | 'rose' | 'slate';
+
+export type CategoryIcon = 'target' | 'book' | 'dumbbell' | 'briefcase' | 'heart' | 'brain' | 'wallet' | 'music' | 'code' | 'sprout';
+
 export interface Goal {
   id: string;
   title: string;
   goalCount: number;
+  completedCount: number;
   type: 'input' | 'output';
+  color?: CategoryColor;
+  icon?: CategoryIcon;
+  // Hidden from the Lab, reminders and the hub chat, but kept with its goals
+  archived?: boolean;
+  // Position in the Lab, counted across inputs and outputs together
+  order?: number;
+}
+
+// How often a habit comes round. `start` is the local date (YYYY-MM-DD) it
+// was set up, so no period before it counts as missed.
+export type Recurrence =
+  | { kind: 'daily'; start: string }
+  | { kind: 'weekdays'; start: string }
+  | { kind: 'weekly'; timesPerWeek: number; start: string }
+  | { kind: 'rrule'; rule: string; start: string };
+
+// A step towards a goal; steps can have steps of their own
+export interface Subtask {
+  id: string;
+  title: string;
+  completed: boolean;
+  subtasks?: Subtask[];
 }
 
 export interface IndividualGoal {
@@ -10,6 +37,32 @@ export interface IndividualGoal {
   title: string;
   description?: string;
   deadline?: Date;
+  // One-shot goals only; a recurring goal is never done for good
   completed: boolean;
   categoryId: string;
-}
\ No newline at end of file
+  recurrence?: Recurrence;
+  // Local dates (YYYY-MM-DD) a recurring goal was done on
+  completions?: string[];
+  subtasks?: Subtask[];
+  // Ids of goals, in any category, that have to be done before this one
+  blockedBy?: string[];
+  // Position within its category, which is the order the path walks
+  order?: number;
+}
+export type InfluenceWeight = 1 | 2 | 3;
+
+// A line drawn in the Lab from an input to an output it fuels
+export interface Influence {
+  id: string;
+  inputId: string;
+  outputId: string;
+  weight?: InfluenceWeight;
+}
+
+// An influence with both of its categories looked up
+export interface InfluenceLink {
+  id: string;
+  input: Goal;
+  output: Goal;
+  weight?: InfluenceWeight;
+}
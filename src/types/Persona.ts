@@ -0,0 +1,15 @@
+export type PersonaTone = 'warm' | 'direct' | 'playful' | 'tough-love';
+
+export interface FuturePersona {
+  name: string;
+  // Either an age or a date (YYYY-MM-DD) the future self is speaking from
+  targetAge?: number;
+  targetDate?: string;
+  whoTheyBecame: string;
+  values: string[];
+  tone: PersonaTone;
+  whatTheyOvercame: string;
+  // Bumped on every save so compiled prompts can be traced to an edit
+  revision: number;
+  updatedAt: string;
+}
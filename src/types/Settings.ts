@@ -0,0 +1,12 @@
+export interface AppSettings {
+  notificationsEnabled: boolean;
+  // Proactive check-ins happen once at a random time within this window
+  checkInIntervalHours: number;
+  // How long before a goal's deadline its reminder fires
+  reminderLeadMinutes: number;
+  sound: boolean;
+  vibration: boolean;
+  emailSync: boolean;
+  calendarSync: boolean;
+  darkMode: boolean;
+}
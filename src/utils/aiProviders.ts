@@ -0,0 +1,248 @@
+import { ChatMessage } from '../types/Chat';
+import { readServerSentEvents } from './sse';
+
+export type AIProviderId = 'openai' | 'anthropic' | 'mock';
+
+export interface AIConfig {
+  provider: AIProviderId;
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  maxRetries: number;
+}
+
+export interface AIRequest {
+  messages: ChatMessage[];
+  signal?: AbortSignal;
+}
+
+export interface AIProvider {
+  id: AIProviderId;
+  complete(request: AIRequest): Promise<string>;
+  // Yields the reply in chunks as the model produces it
+  stream(request: AIRequest): AsyncGenerator<string>;
+}
+
+export class AIServiceError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number,
+    public readonly retryable = false
+  ) {
+    super(message);
+    this.name = 'AIServiceError';
+  }
+}
+
+const MAX_TOKENS = 1024;
+
+function trimSlash(url: string) {
+  return url.replace(/\/+$/, '');
+}
+
+async function post(url: string, headers: Record<string, string>, body: unknown, signal?: AbortSignal) {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (e) {
+    if (signal?.aborted) throw e;
+    throw new AIServiceError('Could not reach the AI service. Check your connection.', undefined, true);
+  }
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    const retryable = response.status === 429 || response.status >= 500;
+    throw new AIServiceError(
+      `AI service responded with ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`,
+      response.status,
+      retryable
+    );
+  }
+
+  return response;
+}
+
+async function postJSON(url: string, headers: Record<string, string>, body: unknown, signal?: AbortSignal) {
+  const response = await post(url, headers, body, signal);
+  return response.json();
+}
+
+async function* postStream(url: string, headers: Record<string, string>, body: unknown, signal?: AbortSignal) {
+  const response = await post(url, { Accept: 'text/event-stream', ...headers }, body, signal);
+  if (!response.body) {
+    throw new AIServiceError('AI service did not return a stream.');
+  }
+  yield* readServerSentEvents(response.body);
+}
+
+function parseEventData(data: string) {
+  try {
+    return JSON.parse(data);
+  } catch {
+    throw new AIServiceError('AI service sent a malformed stream event.');
+  }
+}
+
+// setTimeout as a promise that rejects with an AbortError when cancelled.
+export function delay(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Any server speaking the OpenAI chat completions API (OpenAI, OpenRouter,
+// Ollama, LM Studio, ...). baseUrl should include the version, e.g. /v1.
+export function createOpenAIProvider(config: AIConfig): AIProvider {
+  const url = `${trimSlash(config.baseUrl)}/chat/completions`;
+  const headers: Record<string, string> = {};
+  if (config.apiKey) headers.Authorization = `Bearer ${config.apiKey}`;
+
+  return {
+    id: 'openai',
+    async complete({ messages, signal }) {
+      const data = await postJSON(url, headers, { model: config.model, messages }, signal);
+
+      const content = data?.choices?.[0]?.message?.content;
+      if (typeof content !== 'string') {
+        throw new AIServiceError('AI service returned an unexpected response.');
+      }
+      return content;
+    },
+    async *stream({ messages, signal }) {
+      const events = postStream(url, headers, { model: config.model, messages, stream: true }, signal);
+      for await (const { data } of events) {
+        if (data === '[DONE]') return;
+        const delta = parseEventData(data)?.choices?.[0]?.delta?.content;
+        if (typeof delta === 'string' && delta) yield delta;
+      }
+    },
+  };
+}
+
+// Anthropic Messages API. The system prompt travels separately and the
+// conversation has to open with a user turn.
+export function createAnthropicProvider(config: AIConfig): AIProvider {
+  const url = `${trimSlash(config.baseUrl)}/v1/messages`;
+  const headers: Record<string, string> = {
+    'anthropic-version': '2023-06-01',
+    'anthropic-dangerous-direct-browser-access': 'true',
+  };
+  if (config.apiKey) headers['x-api-key'] = config.apiKey;
+
+  const toBody = (messages: ChatMessage[]) => {
+    const system = messages
+      .filter(m => m.role === 'system')
+      .map(m => m.content)
+      .join('\n\n');
+    const conversation = messages.filter(m => m.role !== 'system');
+    const firstUser = conversation.findIndex(m => m.role === 'user');
+    return {
+      model: config.model,
+      max_tokens: MAX_TOKENS,
+      ...(system ? { system } : {}),
+      messages: firstUser === -1 ? [] : conversation.slice(firstUser),
+    };
+  };
+
+  return {
+    id: 'anthropic',
+    async complete({ messages, signal }) {
+      const data = await postJSON(url, headers, toBody(messages), signal);
+
+      const blocks: unknown = data?.content;
+      if (!Array.isArray(blocks)) {
+        throw new AIServiceError('AI service returned an unexpected response.');
+      }
+      return blocks
+        .filter(block => block?.type === 'text' && typeof block.text === 'string')
+        .map(block => block.text as string)
+        .join('');
+    },
+    async *stream({ messages, signal }) {
+      const events = postStream(url, headers, { ...toBody(messages), stream: true }, signal);
+      for await (const { event, data } of events) {
+        if (event === 'message_stop') return;
+        if (event === 'error') {
+          const message = parseEventData(data)?.error?.message;
+          throw new AIServiceError(message || 'AI service reported an error mid-stream.');
+        }
+        if (event === 'content_block_delta') {
+          const text = parseEventData(data)?.delta?.text;
+          if (typeof text === 'string' && text) yield text;
+        }
+      }
+    },
+  };
+}
+
+// Deterministic offline provider: the same history always produces the same
+// reply, which keeps the chat usable without a backend.
+export function createMockProvider(): AIProvider {
+  const reply = (messages: ChatMessage[]) => {
+    const lastUser = [...messages].reverse().find(m => m.role === 'user');
+    const turn = messages.filter(m => m.role === 'user').length;
+    if (!lastUser) {
+      return "I'm here whenever you're ready. What's on your mind today?";
+    }
+
+    // Hub chats get the Lab action protocol; honour simple "create" requests
+    // so the confirm-and-apply flow works offline too.
+    const canEditLab = messages.some(m => m.role === 'system' && m.content.includes('```dejavu-actions'));
+    const create = lastUser.content.match(/\b(?:add|create|new)\b.*?\b(input|output)\b(?:\s+category)?(?:\s+(?:called|named))?\s+"?([^"]+?)"?[.!]?$/i);
+    if (canEditLab && create) {
+      const action = { type: 'create_category', title: create[2].trim(), categoryType: create[1].toLowerCase() };
+      return `Good call. Here's what I'd add to your Lab:\n\n\`\`\`dejavu-actions\n${JSON.stringify([action])}\n\`\`\``;
+    }
+
+    const topic = lastUser.content.trim().replace(/[.!?]+$/, '');
+    const replies = [
+      `I remember when "${topic}" felt like a big deal. From where I'm standing, the small steps you take today really add up. What's one thing you could do about it this week?`,
+      `You're closer than you think on "${topic}". What would make tomorrow 1% easier than today?`,
+      `Looking back, "${topic}" is exactly the kind of thing consistency fixes. What's the smallest next step you can commit to?`,
+    ];
+    return replies[(turn - 1) % replies.length];
+  };
+
+  return {
+    id: 'mock',
+    async complete({ messages, signal }) {
+      await delay(600, signal);
+      return reply(messages);
+    },
+    async *stream({ messages, signal }) {
+      await delay(400, signal);
+      for (const word of reply(messages).match(/\S+\s*/g) ?? []) {
+        yield word;
+        await delay(40, signal);
+      }
+    },
+  };
+}
+
+export function createProvider(config: AIConfig): AIProvider {
+  switch (config.provider) {
+    case 'openai':
+      return createOpenAIProvider(config);
+    case 'anthropic':
+      return createAnthropicProvider(config);
+    default:
+      return createMockProvider();
+  }
+}
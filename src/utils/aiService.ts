@@ -0,0 +1,144 @@
+import { ChatMessage, Message } from '../types/Chat';
+import { AIConfig, AIProviderId, AIServiceError, createProvider, delay } from './aiProviders';
+import { getPersona } from './personaStore';
+import { readJSON, writeJSON } from './storage';
+import { compileSystemPrompt } from './systemPrompt';
+
+export const AI_CONFIG_STORAGE_KEY = 'dejavu-ai-config';
+
+const DEFAULT_BASE_URLS: Record<AIProviderId, string> = {
+  openai: 'https://api.openai.com/v1',
+  anthropic: 'https://api.anthropic.com',
+  mock: '',
+};
+
+const DEFAULT_MODELS: Record<AIProviderId, string> = {
+  openai: 'gpt-4o-mini',
+  anthropic: 'claude-3-5-haiku-latest',
+  mock: 'mock',
+};
+
+function isProviderId(value: unknown): value is AIProviderId {
+  return value === 'openai' || value === 'anthropic' || value === 'mock';
+}
+
+// Build-time defaults from VITE_AI_* env vars; without them the app runs on
+// the offline mock provider. VITE_AI_API_KEY is built into the client
+// bundle, so it is for local development only (see the README).
+function getEnvConfig(): AIConfig {
+  const env = import.meta.env;
+  const provider = isProviderId(env.VITE_AI_PROVIDER) ? env.VITE_AI_PROVIDER : 'mock';
+  return {
+    provider,
+    baseUrl: env.VITE_AI_BASE_URL || DEFAULT_BASE_URLS[provider],
+    model: env.VITE_AI_MODEL || DEFAULT_MODELS[provider],
+    apiKey: env.VITE_AI_API_KEY,
+    maxRetries: 2,
+  };
+}
+
+export function getAIConfig(): AIConfig {
+  const overrides = readJSON<Partial<AIConfig>>(AI_CONFIG_STORAGE_KEY, {});
+  const config = { ...getEnvConfig(), ...overrides };
+  return isProviderId(config.provider) ? config : { ...config, provider: 'mock' };
+}
+
+// Persists user overrides on top of the env defaults. Switching provider
+// resets base URL and model unless they are given explicitly.
+export function setAIConfig(overrides: Partial<AIConfig>) {
+  const previous = readJSON<Partial<AIConfig>>(AI_CONFIG_STORAGE_KEY, {});
+  const next: Partial<AIConfig> = { ...previous, ...overrides };
+  if (overrides.provider && overrides.provider !== previous.provider) {
+    next.baseUrl = overrides.baseUrl ?? DEFAULT_BASE_URLS[overrides.provider];
+    next.model = overrides.model ?? DEFAULT_MODELS[overrides.provider];
+  }
+  writeJSON(AI_CONFIG_STORAGE_KEY, next);
+}
+
+export function toProviderMessages(history: Message[], systemPrompt: string): ChatMessage[] {
+  return [
+    { role: 'system', content: systemPrompt },
+    ...history.map((message): ChatMessage => ({
+      role: message.sender === 'user' ? 'user' : 'assistant',
+      content: message.content,
+    })),
+  ];
+}
+
+export function isAbortError(error: unknown) {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+export async function withRetry<T>(
+  run: () => Promise<T>,
+  maxRetries: number,
+  signal?: AbortSignal
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await run();
+    } catch (e) {
+      const retryable = e instanceof AIServiceError && e.retryable;
+      if (!retryable || attempt >= maxRetries || signal?.aborted) throw e;
+      await delay(500 * 2 ** attempt, signal);
+    }
+  }
+}
+
+export interface SendChatOptions {
+  systemPrompt?: string;
+  signal?: AbortSignal;
+  config?: AIConfig;
+}
+
+// Sends the full conversation to the configured provider and resolves with
+// the assistant's reply.
+export async function sendChatMessage(history: Message[], options: SendChatOptions = {}): Promise<string> {
+  const config = options.config ?? getAIConfig();
+  const provider = createProvider(config);
+  const messages = toProviderMessages(history, options.systemPrompt ?? compileSystemPrompt(getPersona()).text);
+
+  return withRetry(
+    () => provider.complete({ messages, signal: options.signal }),
+    config.maxRetries,
+    options.signal
+  );
+}
+
+export interface StreamChatOptions extends SendChatOptions {
+  onToken: (token: string) => void;
+}
+
+// Streams the reply token by token. Connection failures are retried, but once
+// any text has reached the UI a failure is surfaced instead of starting over.
+export async function streamChatMessage(history: Message[], options: StreamChatOptions): Promise<string> {
+  const config = options.config ?? getAIConfig();
+  const provider = createProvider(config);
+  const messages = toProviderMessages(history, options.systemPrompt ?? compileSystemPrompt(getPersona()).text);
+  let content = '';
+
+  return withRetry(
+    async () => {
+      try {
+        for await (const token of provider.stream({ messages, signal: options.signal })) {
+          content += token;
+          options.onToken(token);
+        }
+        return content;
+      } catch (e) {
+        if (content && e instanceof AIServiceError && e.retryable) {
+          throw new AIServiceError(e.message, e.status, false);
+        }
+        throw e;
+      }
+    },
+    config.maxRetries,
+    options.signal
+  );
+}
+
+export function getErrorMessage(error: unknown) {
+  if (error instanceof AIServiceError) return error.message;
+  if (error instanceof Error) return error.message;
+  return 'Something went wrong while contacting the AI service.';
+}
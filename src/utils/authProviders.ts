@@ -0,0 +1,62 @@
+import { AuthProviderConfig, AuthProviderId } from '../types/Auth';
+
+export const AUTH_CALLBACK_PATH = '/auth/callback';
+
+export function getRedirectUri() {
+  return `${window.location.origin}${AUTH_CALLBACK_PATH}`;
+}
+
+function trimSlash(url: string) {
+  return url.replace(/\/+$/, '');
+}
+
+// Providers are enabled by their env vars; see README "Authentication".
+export function getAuthProviders(): Partial<Record<AuthProviderId, AuthProviderConfig>> {
+  const env = import.meta.env;
+  const providers: Partial<Record<AuthProviderId, AuthProviderConfig>> = {};
+
+  if (env.VITE_GOOGLE_CLIENT_ID) {
+    providers.google = {
+      id: 'google',
+      label: 'Google',
+      clientId: env.VITE_GOOGLE_CLIENT_ID,
+      authorizeUrl: 'https://accounts.google.com/o/oauth2/v2/auth',
+      tokenUrl: 'https://oauth2.googleapis.com/token',
+      userInfoUrl: 'https://openidconnect.googleapis.com/v1/userinfo',
+      scope: 'openid email profile',
+      extraParams: { access_type: 'offline', prompt: 'consent' },
+    };
+  }
+
+  if (env.VITE_CANVAS_BASE_URL && env.VITE_CANVAS_CLIENT_ID) {
+    const base = trimSlash(env.VITE_CANVAS_BASE_URL);
+    providers.canvas = {
+      id: 'canvas',
+      label: 'Canvas',
+      clientId: env.VITE_CANVAS_CLIENT_ID,
+      authorizeUrl: `${base}/login/oauth2/auth`,
+      tokenUrl: `${base}/login/oauth2/token`,
+      scope: '',
+    };
+  }
+
+  // Local identity provider for development: `npm run mock-idp`
+  if (env.VITE_AUTH_MOCK_URL) {
+    const base = trimSlash(env.VITE_AUTH_MOCK_URL);
+    providers.mock = {
+      id: 'mock',
+      label: 'Test Account',
+      clientId: 'dejavu-dev',
+      authorizeUrl: `${base}/authorize`,
+      tokenUrl: `${base}/token`,
+      userInfoUrl: `${base}/userinfo`,
+      scope: 'openid profile email',
+    };
+  }
+
+  return providers;
+}
+
+export function getAuthProvider(id: AuthProviderId): AuthProviderConfig | undefined {
+  return getAuthProviders()[id];
+}
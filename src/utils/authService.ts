@@ -0,0 +1,280 @@
+import { AuthProviderConfig, AuthProviderId, AuthSession, AuthUser } from '../types/Auth';
+import { AUTH_CALLBACK_PATH, getAuthProvider, getRedirectUri } from './authProviders';
+import { createCodeChallenge, createCodeVerifier, randomToken } from './pkce';
+import { syncRoute } from './router';
+import {
+  readGlobalJSON,
+  removeGlobalJSON,
+  setStorageScope,
+  writeGlobalJSON,
+} from './storage';
+
+// OAuth 2.0 Authorization Code + PKCE sign-in with a persisted, refreshed
+// session. The session is device-wide; everything else is stored per user.
+
+export const SESSION_STORAGE_KEY = 'dejavu-session';
+// Survives the round trip to the provider but not the browser tab
+const PENDING_SIGN_IN_KEY = 'dejavu-auth-pending';
+// Refresh this long before the access token actually expires
+const REFRESH_LEEWAY_MS = 60 * 1000;
+
+export type AuthStatus = 'restoring' | 'signedOut' | 'signedIn';
+
+export interface AuthState {
+  status: AuthStatus;
+  session: AuthSession | null;
+  error: string | null;
+}
+
+interface PendingSignIn {
+  provider: AuthProviderId;
+  state: string;
+  verifier: string;
+  returnTo: string;
+}
+
+interface TokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  expires_in?: number;
+  // Canvas identifies the user in the token response itself
+  user?: { id: number | string; name?: string };
+}
+
+export class AuthError extends Error {
+  constructor(message: string, public readonly code?: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+type Listener = () => void;
+
+let authState: AuthState = { status: 'restoring', session: null, error: null };
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+let restoring: Promise<void> | null = null;
+const listeners = new Set<Listener>();
+
+function setAuthState(next: AuthState) {
+  authState = next;
+  listeners.forEach(listener => listener());
+}
+
+export function subscribeToAuth(listener: Listener) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getAuthState(): AuthState {
+  return authState;
+}
+
+function userScope(session: AuthSession) {
+  return `${session.provider}:${session.user.id}`;
+}
+
+function requireProvider(id: AuthProviderId): AuthProviderConfig {
+  const provider = getAuthProvider(id);
+  if (!provider) throw new AuthError(`Sign-in with ${id} is not configured.`, 'unconfigured');
+  return provider;
+}
+
+function clearRefreshTimer() {
+  if (refreshTimer !== null) {
+    clearTimeout(refreshTimer);
+    refreshTimer = null;
+  }
+}
+
+function scheduleRefresh(session: AuthSession) {
+  clearRefreshTimer();
+  if (session.expiresAt === null || !session.refreshToken) return;
+  const delay = Math.max(0, session.expiresAt - REFRESH_LEEWAY_MS - Date.now());
+  refreshTimer = setTimeout(() => {
+    void refreshSession().catch(() => undefined);
+  }, Math.min(delay, 2 ** 31 - 1));
+}
+
+function startSession(session: AuthSession) {
+  writeGlobalJSON(SESSION_STORAGE_KEY, session);
+  // Switch storage over before anyone re-renders with the new user
+  setStorageScope(userScope(session), { prefix: 'dejavu-', exclude: [SESSION_STORAGE_KEY] });
+  scheduleRefresh(session);
+  setAuthState({ status: 'signedIn', session, error: null });
+}
+
+function endSession(error: string | null = null) {
+  clearRefreshTimer();
+  removeGlobalJSON(SESSION_STORAGE_KEY);
+  setStorageScope(null);
+  setAuthState({ status: 'signedOut', session: null, error });
+}
+
+async function requestTokens(provider: AuthProviderConfig, params: Record<string, string>): Promise<TokenResponse> {
+  let response: Response;
+  try {
+    response = await fetch(provider.tokenUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+      body: new URLSearchParams({ client_id: provider.clientId, ...params }),
+    });
+  } catch {
+    throw new AuthError(`Could not reach ${provider.label}. Check your connection.`, 'network');
+  }
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok || typeof body.access_token !== 'string') {
+    const reason = typeof body.error_description === 'string' ? body.error_description : body.error;
+    throw new AuthError(`${provider.label} sign-in failed${reason ? `: ${reason}` : '.'}`, body.error);
+  }
+  return body as TokenResponse;
+}
+
+async function fetchUser(provider: AuthProviderConfig, tokens: TokenResponse): Promise<AuthUser> {
+  if (tokens.user) {
+    return { id: String(tokens.user.id), name: tokens.user.name };
+  }
+  if (!provider.userInfoUrl) {
+    throw new AuthError(`${provider.label} did not say who signed in.`, 'no_user');
+  }
+
+  const response = await fetch(provider.userInfoUrl, {
+    headers: { Authorization: `Bearer ${tokens.access_token}` },
+  });
+  if (!response.ok) throw new AuthError(`Could not load your ${provider.label} profile.`, 'userinfo');
+  const info = await response.json();
+  return { id: String(info.sub ?? info.id), name: info.name, email: info.email };
+}
+
+function toSession(provider: AuthProviderId, user: AuthUser, tokens: TokenResponse, previous?: AuthSession): AuthSession {
+  return {
+    provider,
+    user,
+    accessToken: tokens.access_token,
+    // Providers may omit the refresh token when it is unchanged
+    refreshToken: tokens.refresh_token ?? previous?.refreshToken,
+    expiresAt: tokens.expires_in ? Date.now() + tokens.expires_in * 1000 : null,
+  };
+}
+
+// Sends the browser to the provider; the flow resumes in restoreSession().
+export async function beginSignIn(providerId: AuthProviderId) {
+  const provider = requireProvider(providerId);
+  const verifier = createCodeVerifier();
+  const pending: PendingSignIn = {
+    provider: providerId,
+    state: randomToken(),
+    verifier,
+    returnTo: window.location.pathname === AUTH_CALLBACK_PATH ? '/' : window.location.pathname,
+  };
+  sessionStorage.setItem(PENDING_SIGN_IN_KEY, JSON.stringify(pending));
+
+  const params = new URLSearchParams({
+    response_type: 'code',
+    client_id: provider.clientId,
+    redirect_uri: getRedirectUri(),
+    state: pending.state,
+    code_challenge: await createCodeChallenge(verifier),
+    code_challenge_method: 'S256',
+    ...(provider.scope ? { scope: provider.scope } : {}),
+    ...provider.extraParams,
+  });
+  window.location.assign(`${provider.authorizeUrl}?${params}`);
+}
+
+// Local-only session for when no identity provider is configured.
+export function signInOffline() {
+  startSession({
+    provider: 'offline',
+    user: { id: 'local', name: 'Offline' },
+    accessToken: '',
+    expiresAt: null,
+  });
+}
+
+async function completeSignIn() {
+  const params = new URLSearchParams(window.location.search);
+  const pending: PendingSignIn | null = JSON.parse(sessionStorage.getItem(PENDING_SIGN_IN_KEY) ?? 'null');
+  sessionStorage.removeItem(PENDING_SIGN_IN_KEY);
+  // Drop the code from the address bar whatever happens next
+  window.history.replaceState(null, '', pending?.returnTo ?? '/');
+  syncRoute();
+
+  if (params.get('error')) {
+    throw new AuthError(params.get('error_description') ?? 'Sign-in was cancelled.', params.get('error') ?? undefined);
+  }
+  const code = params.get('code');
+  if (!pending || !code || params.get('state') !== pending.state) {
+    throw new AuthError('Sign-in could not be verified. Please try again.', 'state_mismatch');
+  }
+
+  const provider = requireProvider(pending.provider);
+  const tokens = await requestTokens(provider, {
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: getRedirectUri(),
+    code_verifier: pending.verifier,
+  });
+  const user = await fetchUser(provider, tokens);
+  startSession(toSession(pending.provider, user, tokens));
+}
+
+export async function refreshSession(session = authState.session) {
+  if (!session?.refreshToken) return;
+
+  try {
+    const provider = requireProvider(session.provider);
+    const tokens = await requestTokens(provider, {
+      grant_type: 'refresh_token',
+      refresh_token: session.refreshToken,
+    });
+    startSession(toSession(session.provider, session.user, tokens, session));
+  } catch (error) {
+    // A network blip shouldn't sign anyone out; a rejected token should
+    if (error instanceof AuthError && error.code === 'network') {
+      if (authState.status !== 'signedIn') startSession(session);
+      scheduleRefresh({ ...session, expiresAt: Date.now() + REFRESH_LEEWAY_MS * 2 });
+      throw error;
+    }
+    endSession('Your session expired. Please sign in again.');
+    throw error;
+  }
+}
+
+async function restore() {
+  if (window.location.pathname === AUTH_CALLBACK_PATH) {
+    try {
+      await completeSignIn();
+    } catch (error) {
+      endSession(error instanceof Error ? error.message : 'Sign-in failed.');
+    }
+    return;
+  }
+
+  const saved = readGlobalJSON<AuthSession | null>(SESSION_STORAGE_KEY, null);
+  if (!saved) {
+    endSession();
+    return;
+  }
+  if (saved.expiresAt !== null && saved.expiresAt - REFRESH_LEEWAY_MS <= Date.now()) {
+    if (!saved.refreshToken) {
+      endSession('Your session expired. Please sign in again.');
+      return;
+    }
+    await refreshSession(saved).catch(() => undefined);
+    return;
+  }
+  startSession(saved);
+}
+
+// Restores the saved session (or finishes a redirect) once per page load.
+export function restoreSession() {
+  restoring ??= restore();
+  return restoring;
+}
+
+export function signOut() {
+  endSession();
+}
@@ -0,0 +1,395 @@
+import { CategoryColor, CategoryIcon, Goal, IndividualGoal, Influence, Recurrence, Subtask } from '../types/Goal';
+import { CATEGORY_COLORS, CATEGORY_ICONS } from '../config/categoryStyles';
+import { Message } from '../types/Chat';
+import { FuturePersona, PersonaTone } from '../types/Persona';
+import { AppSettings } from '../types/Settings';
+import { getCategories, setCategories } from './categoryStore';
+import { getInfluences, setInfluences } from './influenceStore';
+import { getAllIndividualGoals, replaceAllIndividualGoals } from './goalStore';
+import { CHAT_STORAGE_PREFIX, deleteChatThread, listChatThreadIds, loadChatThread, saveChatThread } from './chatStore';
+import { getPersona, replacePersona } from './personaStore';
+import { clearHistory } from './history';
+import { getSettings, migrateSettings, updateSettings } from './settingsStore';
+import { sortByOrder } from './order';
+import { parseRRule, RecurrenceError } from './recurrence';
+
+// One file holding everything a user has in DeJaVu. Backups are versioned so
+// files written by older builds can still be restored after the format grows.
+
+export const BACKUP_FORMAT = 'dejavu-backup';
+export const BACKUP_VERSION = 1;
+
+export interface BackupData {
+  categories: Goal[];
+  individualGoals: Record<string, IndividualGoal[]>;
+  influences: Influence[];
+  chatThreads: Record<string, Message[]>;
+  persona: FuturePersona | null;
+  settings: AppSettings;
+}
+
+export interface Backup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  data: BackupData;
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+export class BackupError extends Error {
+  constructor(message: string, public readonly path?: string) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+type Raw = Record<string, unknown>;
+
+// Each entry upgrades backup data from version `index` to `index + 1`.
+const MIGRATIONS: Array<(data: Raw) => Raw> = [
+  // 0 -> 1: a raw dump of the app's localStorage keys, as older builds kept them
+  dump => {
+    const value = (key: string) => {
+      const saved = dump[key];
+      if (typeof saved !== 'string') return saved;
+      try {
+        return JSON.parse(saved);
+      } catch {
+        return saved;
+      }
+    };
+    const chatThreads: Raw = {};
+    Object.keys(dump)
+      .filter(key => key.startsWith(CHAT_STORAGE_PREFIX))
+      .forEach(key => {
+        chatThreads[key.slice(CHAT_STORAGE_PREFIX.length)] = value(key);
+      });
+    return {
+      categories: value('dejavu-lab-goals') ?? [],
+      individualGoals: value('dejavu-individual-goals') ?? {},
+      influences: value('dejavu-influences') ?? [],
+      chatThreads,
+      persona: value('dejavu-persona') ?? null,
+      settings: value('dejavu-settings') ?? null,
+    };
+  },
+];
+
+const PERSONA_TONES: PersonaTone[] = ['warm', 'direct', 'playful', 'tough-love'];
+
+function isObject(value: unknown): value is Raw {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function invalid(path: string, expected: string): never {
+  throw new BackupError(`This backup is damaged: ${path} should be ${expected}.`, path);
+}
+
+function readString(raw: Raw, key: string, path: string) {
+  if (typeof raw[key] !== 'string') invalid(`${path}.${key}`, 'text');
+  return raw[key] as string;
+}
+
+function readOptionalString(raw: Raw, key: string, path: string) {
+  return raw[key] === undefined || raw[key] === null ? undefined : readString(raw, key, path);
+}
+
+function readDate(value: unknown, path: string) {
+  const date = typeof value === 'string' || typeof value === 'number' ? new Date(value) : null;
+  if (!date || isNaN(date.getTime())) invalid(path, 'a date');
+  return date;
+}
+
+function readArray(value: unknown, path: string) {
+  if (!Array.isArray(value)) invalid(path, 'a list');
+  return value as unknown[];
+}
+
+function readRecord(value: unknown, path: string) {
+  if (!isObject(value)) invalid(path, 'an object');
+  return value;
+}
+
+// Lists are sorted by this as they're read
+function readOrder(raw: Raw) {
+  return typeof raw.order === 'number' && Number.isFinite(raw.order) ? raw.order : undefined;
+}
+
+function validateCategory(raw: unknown, path: string): Goal {
+  const category = readRecord(raw, path);
+  if (category.type !== 'input' && category.type !== 'output') invalid(`${path}.type`, '"input" or "output"');
+  return {
+    id: readString(category, 'id', path),
+    title: readString(category, 'title', path),
+    goalCount: typeof category.goalCount === 'number' ? category.goalCount : 0,
+    completedCount: typeof category.completedCount === 'number' ? category.completedCount : 0,
+    type: category.type,
+    color: typeof category.color === 'string' && category.color in CATEGORY_COLORS ? category.color as CategoryColor : undefined,
+    icon: typeof category.icon === 'string' && category.icon in CATEGORY_ICONS ? category.icon as CategoryIcon : undefined,
+    archived: category.archived === true ? true : undefined,
+    order: readOrder(category),
+  };
+}
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+
+function validateRecurrence(raw: unknown, path: string): Recurrence | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  const recurrence = readRecord(raw, path);
+  const start = readString(recurrence, 'start', path);
+  if (!DATE_KEY.test(start)) invalid(`${path}.start`, 'a date');
+  switch (recurrence.kind) {
+    case 'daily':
+    case 'weekdays':
+      return { kind: recurrence.kind, start };
+    case 'weekly': {
+      const times = recurrence.timesPerWeek;
+      if (typeof times !== 'number' || !Number.isInteger(times) || times < 1 || times > 7) {
+        invalid(`${path}.timesPerWeek`, 'a whole number from 1 to 7');
+      }
+      return { kind: 'weekly', timesPerWeek: times, start };
+    }
+    case 'rrule': {
+      const rule = readString(recurrence, 'rule', path);
+      try {
+        parseRRule(rule);
+      } catch (error) {
+        if (error instanceof RecurrenceError) invalid(`${path}.rule`, 'a supported repeat rule');
+        throw error;
+      }
+      return { kind: 'rrule', rule, start };
+    }
+    default:
+      return invalid(`${path}.kind`, '"daily", "weekdays", "weekly" or "rrule"');
+  }
+}
+
+function validateSubtask(raw: unknown, path: string): Subtask {
+  const subtask = readRecord(raw, path);
+  return {
+    id: readString(subtask, 'id', path),
+    title: readString(subtask, 'title', path),
+    completed: subtask.completed === true,
+    subtasks: subtask.subtasks === undefined
+      ? undefined
+      : readArray(subtask.subtasks, `${path}.subtasks`).map((child, i) => validateSubtask(child, `${path}.subtasks[${i}]`)),
+  };
+}
+
+function validateGoal(raw: unknown, categoryId: string, path: string): IndividualGoal {
+  const goal = readRecord(raw, path);
+  return {
+    id: readString(goal, 'id', path),
+    title: readString(goal, 'title', path),
+    description: readOptionalString(goal, 'description', path),
+    deadline: goal.deadline === undefined || goal.deadline === null ? undefined : readDate(goal.deadline, `${path}.deadline`),
+    completed: goal.completed === true,
+    categoryId,
+    recurrence: validateRecurrence(goal.recurrence, `${path}.recurrence`),
+    completions: goal.completions === undefined
+      ? undefined
+      : readArray(goal.completions, `${path}.completions`).map((key, i) => {
+        if (typeof key !== 'string' || !DATE_KEY.test(key)) invalid(`${path}.completions[${i}]`, 'a date');
+        return key as string;
+      }),
+    subtasks: goal.subtasks === undefined
+      ? undefined
+      : readArray(goal.subtasks, `${path}.subtasks`).map((subtask, i) => validateSubtask(subtask, `${path}.subtasks[${i}]`)),
+    blockedBy: goal.blockedBy === undefined
+      ? undefined
+      : readArray(goal.blockedBy, `${path}.blockedBy`).map((id, i) => {
+        if (typeof id !== 'string') invalid(`${path}.blockedBy[${i}]`, 'text');
+        return id as string;
+      }),
+    order: readOrder(goal),
+  };
+}
+
+function validateInfluence(raw: unknown, path: string): Influence {
+  const influence = readRecord(raw, path);
+  const weight = influence.weight;
+  return {
+    id: readString(influence, 'id', path),
+    inputId: readString(influence, 'inputId', path),
+    outputId: readString(influence, 'outputId', path),
+    weight: weight === 1 || weight === 2 || weight === 3 ? weight : undefined,
+  };
+}
+
+function validateMessage(raw: unknown, path: string): Message {
+  const message = readRecord(raw, path);
+  if (message.sender !== 'user' && message.sender !== 'ai') invalid(`${path}.sender`, '"user" or "ai"');
+  return {
+    id: readString(message, 'id', path),
+    content: readString(message, 'content', path),
+    sender: message.sender,
+    timestamp: readDate(message.timestamp, `${path}.timestamp`),
+    // A reply cut off mid-stream can never resume after a restore
+    status: message.status === 'streaming' || message.status === 'incomplete' ? 'incomplete' : undefined,
+    proposal: message.proposal === 'applied' || message.proposal === 'dismissed' ? message.proposal : undefined,
+  };
+}
+
+function validatePersona(raw: unknown, path: string): FuturePersona | null {
+  if (raw === null || raw === undefined) return null;
+  const persona = readRecord(raw, path);
+  if (!PERSONA_TONES.includes(persona.tone as PersonaTone)) invalid(`${path}.tone`, `one of ${PERSONA_TONES.join(', ')}`);
+  const values = readArray(persona.values, `${path}.values`);
+  if (values.some(value => typeof value !== 'string')) invalid(`${path}.values`, 'a list of text');
+  return {
+    name: readString(persona, 'name', path),
+    targetAge: typeof persona.targetAge === 'number' ? persona.targetAge : undefined,
+    targetDate: readOptionalString(persona, 'targetDate', path),
+    whoTheyBecame: readString(persona, 'whoTheyBecame', path),
+    values: values as string[],
+    tone: persona.tone as PersonaTone,
+    whatTheyOvercame: readString(persona, 'whatTheyOvercame', path),
+    revision: typeof persona.revision === 'number' ? persona.revision : 1,
+    updatedAt: typeof persona.updatedAt === 'string' ? persona.updatedAt : new Date().toISOString(),
+  };
+}
+
+export function validateBackupData(raw: Raw): BackupData {
+  const individualGoals: Record<string, IndividualGoal[]> = {};
+  Object.entries(readRecord(raw.individualGoals, 'individualGoals')).forEach(([categoryId, goals]) => {
+    const path = `individualGoals.${categoryId}`;
+    individualGoals[categoryId] = sortByOrder(readArray(goals, path).map((goal, i) => validateGoal(goal, categoryId, `${path}[${i}]`)));
+  });
+
+  const chatThreads: Record<string, Message[]> = {};
+  Object.entries(readRecord(raw.chatThreads, 'chatThreads')).forEach(([threadId, messages]) => {
+    const path = `chatThreads.${threadId}`;
+    chatThreads[threadId] = readArray(messages, path).map((message, i) => validateMessage(message, `${path}[${i}]`));
+  });
+
+  return {
+    categories: sortByOrder(readArray(raw.categories, 'categories').map((category, i) => validateCategory(category, `categories[${i}]`))),
+    individualGoals,
+    // Backups from before influences existed have none
+    influences: raw.influences === undefined
+      ? []
+      : readArray(raw.influences, 'influences').map((influence, i) => validateInfluence(influence, `influences[${i}]`)),
+    chatThreads,
+    persona: validatePersona(raw.persona, 'persona'),
+    // Settings are forgiving: bad values fall back to defaults
+    settings: migrateSettings(raw.settings),
+  };
+}
+
+export function parseBackup(text: string): Backup {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new BackupError('This file is not a DeJaVu backup.');
+  }
+  if (!isObject(raw)) throw new BackupError('This file is not a DeJaVu backup.');
+
+  let version: number;
+  let data: Raw;
+  let exportedAt: string | undefined;
+  if (raw.format === BACKUP_FORMAT) {
+    version = Number(raw.version);
+    if (!Number.isInteger(version) || version < 1) throw new BackupError('This backup has an unknown version.');
+    if (version > BACKUP_VERSION) {
+      throw new BackupError('This backup was made by a newer version of DeJaVu. Update the app to restore it.');
+    }
+    data = readRecord(raw.data, 'data');
+    exportedAt = typeof raw.exportedAt === 'string' ? raw.exportedAt : undefined;
+  } else if (Object.keys(raw).some(key => key.startsWith('dejavu-'))) {
+    version = 0;
+    data = raw;
+  } else {
+    throw new BackupError('This file is not a DeJaVu backup.');
+  }
+
+  while (version < BACKUP_VERSION) {
+    data = MIGRATIONS[version](data);
+    version++;
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: exportedAt ?? new Date().toISOString(),
+    data: validateBackupData(data),
+  };
+}
+
+// Merging keeps everything already here and adds what only the backup has.
+// Chat threads are the exception: their messages are interleaved by time.
+export function mergeBackupData(current: BackupData, incoming: BackupData): BackupData {
+  const knownCategories = new Set(current.categories.map(category => category.id));
+  const added = incoming.categories.filter(category => !knownCategories.has(category.id));
+  const categories = [
+    ...current.categories.filter(c => c.type === 'output'),
+    ...added.filter(c => c.type === 'output'),
+    ...current.categories.filter(c => c.type === 'input'),
+    ...added.filter(c => c.type === 'input'),
+  ];
+
+  const individualGoals = { ...current.individualGoals };
+  Object.entries(incoming.individualGoals).forEach(([categoryId, goals]) => {
+    const existing = individualGoals[categoryId] ?? [];
+    const ids = new Set(existing.map(goal => goal.id));
+    individualGoals[categoryId] = [...existing, ...goals.filter(goal => !ids.has(goal.id))];
+  });
+
+  const knownInfluences = new Set(current.influences.map(influence => influence.id));
+  const influences = [...current.influences, ...incoming.influences.filter(influence => !knownInfluences.has(influence.id))];
+
+  const chatThreads = { ...current.chatThreads };
+  Object.entries(incoming.chatThreads).forEach(([threadId, messages]) => {
+    const existing = chatThreads[threadId] ?? [];
+    const ids = new Set(existing.map(message => message.id));
+    chatThreads[threadId] = [...existing, ...messages.filter(message => !ids.has(message.id))]
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  });
+
+  return {
+    categories,
+    individualGoals,
+    influences,
+    chatThreads,
+    persona: current.persona ?? incoming.persona,
+    settings: current.settings,
+  };
+}
+
+// Runtime: reads and writes the stores.
+
+function currentData(): BackupData {
+  const chatThreads: Record<string, Message[]> = {};
+  listChatThreadIds().forEach(threadId => {
+    chatThreads[threadId] = loadChatThread(threadId);
+  });
+  return {
+    categories: getCategories(),
+    individualGoals: getAllIndividualGoals(),
+    influences: getInfluences(),
+    chatThreads,
+    persona: getPersona(),
+    settings: getSettings(),
+  };
+}
+
+export function createBackup(now = new Date()): Backup {
+  return { format: BACKUP_FORMAT, version: BACKUP_VERSION, exportedAt: now.toISOString(), data: currentData() };
+}
+
+export function restoreBackup(backup: Backup, mode: RestoreMode) {
+  const data = mode === 'replace' ? backup.data : mergeBackupData(currentData(), backup.data);
+
+  setCategories(data.categories);
+  replaceAllIndividualGoals(data.individualGoals);
+  setInfluences(data.influences);
+  listChatThreadIds()
+    .filter(threadId => !(threadId in data.chatThreads))
+    .forEach(deleteChatThread);
+  Object.entries(data.chatThreads).forEach(([threadId, messages]) => saveChatThread(threadId, messages));
+  replacePersona(data.persona);
+  updateSettings(data.settings);
+  // Undo steps were recorded against the data that was just replaced
+  clearHistory();
+}
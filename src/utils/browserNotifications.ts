@@ -0,0 +1,42 @@
+import { toast } from 'sonner';
+import { formatTimeUntil, SNOOZE_MINUTES } from './reminders';
+import { getSettings } from './settingsStore';
+import { ReminderNotifier } from './reminderService';
+
+export function canUseBrowserNotifications() {
+  return typeof window !== 'undefined' && 'Notification' in window;
+}
+
+// Must be called from a user gesture in most browsers
+export async function requestNotificationPermission(): Promise<NotificationPermission | 'unsupported'> {
+  if (!canUseBrowserNotifications()) return 'unsupported';
+  if (Notification.permission !== 'default') return Notification.permission;
+  return Notification.requestPermission();
+}
+
+// System notification when permitted (browsers only allow actions on
+// service-worker notifications, so snoozing lives on the in-app toast).
+export const browserReminderNotifier: ReminderNotifier = {
+  notify(reminder, { snooze, open }) {
+    const body = `Due ${formatTimeUntil(reminder.deadline, Date.now())}`;
+    const { sound, vibration } = getSettings();
+
+    if (canUseBrowserNotifications() && Notification.permission === 'granted') {
+      const notification = new Notification(reminder.title, { body, tag: reminder.key, silent: !sound });
+      notification.onclick = () => {
+        window.focus();
+        open();
+        notification.close();
+      };
+    }
+
+    if (vibration && 'vibrate' in navigator) navigator.vibrate(200);
+
+    toast(reminder.title, {
+      description: body,
+      duration: 10000,
+      action: { label: `Snooze ${SNOOZE_MINUTES} min`, onClick: snooze },
+      cancel: { label: 'View', onClick: open },
+    });
+  },
+};
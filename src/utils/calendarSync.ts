@@ -0,0 +1,245 @@
+import { Goal, IndividualGoal } from '../types/Goal';
+import { ICalItem, parseCalendar, serializeCalendar } from './ical';
+import { getCategories, setCategories } from './categoryStore';
+import { getAllIndividualGoals, setIndividualGoals } from './goalStore';
+import { clearHistory } from './history';
+import { onStorageScopeChange, readJSON, writeJSON } from './storage';
+
+// Goals travel to calendar apps as an .ics file and come back the same way.
+// Each UID remembers what it looked like at the last export/import, so an
+// import can tell which side changed a goal and only asks when both did.
+
+export const CALENDAR_SYNC_STORAGE_KEY = 'dejavu-calendar-sync';
+
+const UID_SUFFIX = '@dejavu-mini';
+// Goals created from someone else's calendar keep that calendar's UID
+const FOREIGN_GOAL_PREFIX = 'ics:';
+const DEFAULT_IMPORT_CATEGORY = 'Calendar';
+
+export interface CalendarSyncState {
+  lastExportedAt: string | null;
+  lastImportedAt: string | null;
+  // UID -> fingerprint of the goal at the last export/import
+  items: Record<string, string>;
+}
+
+export interface CalendarConflict {
+  uid: string;
+  local: IndividualGoal;
+  incoming: IndividualGoal;
+}
+
+export type ConflictChoice = 'local' | 'incoming';
+
+export interface CalendarImportSummary {
+  added: number;
+  updated: number;
+  unchanged: number;
+  keptLocal: number;
+  conflicts: number;
+}
+
+export interface CalendarImportPlan {
+  categories: Goal[];
+  // Only the categories whose goal lists changed; conflicts are not applied yet
+  goalsByCategory: Record<string, IndividualGoal[]>;
+  conflicts: CalendarConflict[];
+  state: CalendarSyncState;
+  summary: CalendarImportSummary;
+}
+
+const EMPTY_SYNC_STATE: CalendarSyncState = { lastExportedAt: null, lastImportedAt: null, items: {} };
+
+export function goalUid(goalId: string) {
+  return goalId.startsWith(FOREIGN_GOAL_PREFIX) ? goalId.slice(FOREIGN_GOAL_PREFIX.length) : `${goalId}${UID_SUFFIX}`;
+}
+
+export function uidGoalId(uid: string) {
+  return uid.endsWith(UID_SUFFIX) ? uid.slice(0, -UID_SUFFIX.length) : `${FOREIGN_GOAL_PREFIX}${uid}`;
+}
+
+// Only the fields both sides can carry; .ics times have second precision
+function fingerprint(goal: Pick<IndividualGoal, 'title' | 'description' | 'deadline' | 'completed'>) {
+  const due = goal.deadline ? Math.floor(goal.deadline.getTime() / 1000) : '';
+  return JSON.stringify([goal.title, goal.description ?? '', due, goal.completed]);
+}
+
+function toItem(goal: IndividualGoal, category: Goal): ICalItem {
+  return {
+    uid: goalUid(goal.id),
+    kind: goal.deadline ? 'VEVENT' : 'VTODO',
+    summary: goal.title,
+    description: goal.description,
+    due: goal.deadline,
+    completed: goal.completed,
+    categories: [category.title],
+    categoryId: category.id,
+  };
+}
+
+function slug(title: string) {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'imported';
+}
+
+export function buildCalendarExport(
+  categories: Goal[],
+  goalsByCategory: Record<string, IndividualGoal[]>,
+  state: CalendarSyncState,
+  now = new Date()
+) {
+  const items: ICalItem[] = [];
+  const nextItems = { ...state.items };
+
+  for (const category of categories) {
+    for (const goal of goalsByCategory[category.id] ?? []) {
+      items.push(toItem(goal, category));
+      nextItems[goalUid(goal.id)] = fingerprint(goal);
+    }
+  }
+
+  return {
+    ics: serializeCalendar(items, now),
+    count: items.length,
+    state: { ...state, lastExportedAt: now.toISOString(), items: nextItems },
+  };
+}
+
+export function planCalendarImport(
+  items: ICalItem[],
+  categories: Goal[],
+  goalsByCategory: Record<string, IndividualGoal[]>,
+  state: CalendarSyncState
+): CalendarImportPlan {
+  const summary: CalendarImportSummary = { added: 0, updated: 0, unchanged: 0, keptLocal: 0, conflicts: 0 };
+  const nextState: CalendarSyncState = { ...state, items: { ...state.items } };
+  const changedGoals: Record<string, IndividualGoal[]> = {};
+  const conflicts: CalendarConflict[] = [];
+  let nextCategories = categories;
+
+  const locate = new Map<string, IndividualGoal>();
+  Object.values(goalsByCategory).forEach(goals => goals.forEach(goal => locate.set(goal.id, goal)));
+
+  const goalsFor = (categoryId: string) => changedGoals[categoryId] ?? goalsByCategory[categoryId] ?? [];
+
+  // Exported category id first, then a category with the same title, else a new output
+  function categoryFor(item: ICalItem) {
+    const byId = item.categoryId && nextCategories.find(category => category.id === item.categoryId);
+    if (byId) return byId.id;
+
+    const title = item.categories[0] ?? DEFAULT_IMPORT_CATEGORY;
+    const byTitle = nextCategories.find(category => category.title.toLowerCase() === title.toLowerCase());
+    if (byTitle) return byTitle.id;
+
+    const category: Goal = { id: `calendar-${slug(title)}`, title, goalCount: 0, completedCount: 0, type: 'output' };
+    const outputs = nextCategories.filter(c => c.type === 'output');
+    const inputs = nextCategories.filter(c => c.type === 'input');
+    nextCategories = [...outputs, category, ...inputs];
+    return category.id;
+  }
+
+  const seen = new Set<string>();
+  for (const item of items) {
+    if (seen.has(item.uid)) continue;
+    seen.add(item.uid);
+
+    const goalId = uidGoalId(item.uid);
+    const local = locate.get(goalId);
+    const fields = {
+      title: item.summary,
+      description: item.description,
+      deadline: item.due,
+      completed: item.completed,
+    };
+    const incomingPrint = fingerprint(fields);
+    const base = state.items[item.uid];
+
+    if (!local) {
+      // Deleted here since the last sync and unchanged there: stay deleted
+      if (base !== undefined && base === incomingPrint) continue;
+      const categoryId = categoryFor(item);
+      changedGoals[categoryId] = [...goalsFor(categoryId), { id: goalId, categoryId, ...fields }];
+      nextState.items[item.uid] = incomingPrint;
+      summary.added++;
+      continue;
+    }
+
+    const localPrint = fingerprint(local);
+    if (localPrint === incomingPrint) {
+      nextState.items[item.uid] = incomingPrint;
+      summary.unchanged++;
+    } else if (base === incomingPrint) {
+      // Only edited here
+      summary.keptLocal++;
+    } else if (base === localPrint) {
+      // Only edited in the calendar; the goal stays in its category
+      changedGoals[local.categoryId] = goalsFor(local.categoryId)
+        .map(goal => (goal.id === local.id ? { ...goal, ...fields } : goal));
+      nextState.items[item.uid] = incomingPrint;
+      summary.updated++;
+    } else {
+      // Edited on both sides, or never synced before
+      conflicts.push({ uid: item.uid, local, incoming: { ...local, ...fields } });
+      summary.conflicts++;
+    }
+  }
+
+  return { categories: nextCategories, goalsByCategory: changedGoals, conflicts, state: nextState, summary };
+}
+
+// Folds the user's conflict choices into the plan. Either way the incoming
+// version becomes the base, so re-importing the same file won't ask again.
+export function resolveCalendarConflicts(
+  plan: CalendarImportPlan,
+  goalsByCategory: Record<string, IndividualGoal[]>,
+  choices: Record<string, ConflictChoice>
+): CalendarImportPlan {
+  const changedGoals = { ...plan.goalsByCategory };
+  const items = { ...plan.state.items };
+  const summary = { ...plan.summary, conflicts: 0 };
+
+  for (const conflict of plan.conflicts) {
+    items[conflict.uid] = fingerprint(conflict.incoming);
+    if ((choices[conflict.uid] ?? 'local') === 'local') {
+      summary.keptLocal++;
+      continue;
+    }
+    const categoryId = conflict.local.categoryId;
+    changedGoals[categoryId] = (changedGoals[categoryId] ?? goalsByCategory[categoryId] ?? [])
+      .map(goal => (goal.id === conflict.local.id ? conflict.incoming : goal));
+    summary.updated++;
+  }
+
+  return { ...plan, goalsByCategory: changedGoals, conflicts: [], state: { ...plan.state, items }, summary };
+}
+
+// Runtime: reads and writes the stores.
+
+let syncState = readJSON(CALENDAR_SYNC_STORAGE_KEY, EMPTY_SYNC_STATE);
+
+onStorageScopeChange(() => {
+  syncState = readJSON(CALENDAR_SYNC_STORAGE_KEY, EMPTY_SYNC_STATE);
+});
+
+export function exportCalendar() {
+  const result = buildCalendarExport(getCategories(), getAllIndividualGoals(), syncState);
+  syncState = result.state;
+  writeJSON(CALENDAR_SYNC_STORAGE_KEY, syncState);
+  return { ics: result.ics, count: result.count };
+}
+
+// Throws ICalParseError for files that aren't calendars
+export function prepareCalendarImport(text: string): CalendarImportPlan {
+  return planCalendarImport(parseCalendar(text), getCategories(), getAllIndividualGoals(), syncState);
+}
+
+export function applyCalendarImport(plan: CalendarImportPlan, choices: Record<string, ConflictChoice> = {}) {
+  const resolved = resolveCalendarConflicts(plan, getAllIndividualGoals(), choices);
+  setCategories(resolved.categories);
+  Object.entries(resolved.goalsByCategory).forEach(([categoryId, goals]) => setIndividualGoals(categoryId, goals));
+  // Earlier undo steps may point at goals the import just rewrote
+  clearHistory();
+
+  syncState = { ...resolved.state, lastImportedAt: new Date().toISOString() };
+  writeJSON(CALENDAR_SYNC_STORAGE_KEY, syncState);
+  return resolved.summary;
+}
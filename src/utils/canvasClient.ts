@@ -0,0 +1,90 @@
+// Minimal Canvas LMS REST client: the courses a student is enrolled in and
+// their assignments with the student's own submission.
+
+export interface CanvasCourse {
+  id: number;
+  name: string;
+  course_code?: string;
+  workflow_state?: string;
+}
+
+export interface CanvasSubmission {
+  workflow_state: 'unsubmitted' | 'submitted' | 'graded' | 'pending_review' | string;
+  submitted_at: string | null;
+  excused?: boolean | null;
+}
+
+export interface CanvasAssignment {
+  id: number;
+  course_id: number;
+  name: string;
+  description?: string | null;
+  due_at: string | null;
+  updated_at: string;
+  html_url?: string;
+  submission?: CanvasSubmission;
+}
+
+export interface CanvasClient {
+  listCourses(signal?: AbortSignal): Promise<CanvasCourse[]>;
+  listAssignments(courseId: number, signal?: AbortSignal): Promise<CanvasAssignment[]>;
+}
+
+interface CanvasClientOptions {
+  baseUrl: string;
+  accessToken: string;
+  fetch?: typeof fetch;
+}
+
+export class CanvasError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'CanvasError';
+  }
+}
+
+// Canvas paginates with RFC 5988 Link headers
+function nextPageUrl(link: string | null) {
+  if (!link) return null;
+  for (const part of link.split(',')) {
+    const match = part.match(/<([^>]+)>;\s*rel="next"/);
+    if (match) return match[1];
+  }
+  return null;
+}
+
+export function createCanvasClient({ baseUrl, accessToken, fetch: fetchImpl = fetch }: CanvasClientOptions): CanvasClient {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  async function getAll<T>(path: string, signal?: AbortSignal): Promise<T[]> {
+    const results: T[] = [];
+    let url: string | null = `${root}/api/v1${path}`;
+
+    while (url) {
+      let response: Response;
+      try {
+        response = await fetchImpl(url, {
+          headers: { Authorization: `Bearer ${accessToken}`, Accept: 'application/json' },
+          signal,
+        });
+      } catch (e) {
+        if (e instanceof DOMException && e.name === 'AbortError') throw e;
+        throw new CanvasError('Could not reach Canvas. Check your connection.');
+      }
+
+      if (response.status === 401) throw new CanvasError('Canvas sign-in has expired. Please sign in again.', 401);
+      if (!response.ok) throw new CanvasError(`Canvas request failed (${response.status}).`, response.status);
+
+      results.push(...(await response.json() as T[]));
+      url = nextPageUrl(response.headers.get('Link'));
+    }
+    return results;
+  }
+
+  return {
+    listCourses: signal =>
+      getAll<CanvasCourse>('/courses?enrollment_state=active&per_page=100', signal),
+    listAssignments: (courseId, signal) =>
+      getAll<CanvasAssignment>(`/courses/${courseId}/assignments?include[]=submission&per_page=100`, signal),
+  };
+}
@@ -0,0 +1,276 @@
+import { Goal, IndividualGoal } from '../types/Goal';
+import { CanvasAssignment, CanvasClient, CanvasCourse, CanvasError, createCanvasClient } from './canvasClient';
+import { getAuthState, refreshSession } from './authService';
+import { getCategories, setCategories } from './categoryStore';
+import { getAllIndividualGoals, setIndividualGoals } from './goalStore';
+import { clearHistory } from './history';
+import { onStorageScopeChange, readJSON, writeJSON } from './storage';
+
+// Canvas courses become output categories and their assignments individual
+// goals. Re-syncs are incremental: an assignment is only rewritten when Canvas
+// changed it since the last sync, so local edits to unchanged ones survive.
+
+export const CANVAS_SYNC_STORAGE_KEY = 'dejavu-canvas-sync';
+
+export interface CanvasSyncState {
+  lastSyncedAt: string | null;
+  // assignment goal id -> what Canvas last reported for it
+  assignments: Record<string, string>;
+}
+
+export interface CanvasSnapshot {
+  courses: CanvasCourse[];
+  assignmentsByCourse: Record<number, CanvasAssignment[]>;
+}
+
+export interface CanvasSyncSummary {
+  coursesAdded: number;
+  assignmentsAdded: number;
+  assignmentsUpdated: number;
+  assignmentsCompleted: number;
+  assignmentsRemoved: number;
+}
+
+export interface CanvasSyncPlan {
+  categories: Goal[];
+  // Only the categories whose goal lists changed
+  goalsByCategory: Record<string, IndividualGoal[]>;
+  state: CanvasSyncState;
+  summary: CanvasSyncSummary;
+}
+
+const EMPTY_SYNC_STATE: CanvasSyncState = { lastSyncedAt: null, assignments: {} };
+const SUBMITTED_STATES = ['submitted', 'graded', 'pending_review'];
+const MAX_DESCRIPTION_LENGTH = 280;
+
+export function courseCategoryId(courseId: number) {
+  return `canvas-course-${courseId}`;
+}
+
+export function assignmentGoalId(assignmentId: number) {
+  return `canvas-assignment-${assignmentId}`;
+}
+
+function isCanvasGoal(goal: IndividualGoal) {
+  return goal.id.startsWith('canvas-assignment-');
+}
+
+export function isSubmitted(assignment: CanvasAssignment) {
+  const submission = assignment.submission;
+  if (!submission) return false;
+  return submission.submitted_at !== null
+    || SUBMITTED_STATES.includes(submission.workflow_state)
+    || submission.excused === true;
+}
+
+function fingerprint(assignment: CanvasAssignment) {
+  return [assignment.updated_at, assignment.due_at ?? '', isSubmitted(assignment) ? 'done' : 'open'].join('|');
+}
+
+// Canvas descriptions are HTML; goals show plain text
+function plainText(html: string | null | undefined) {
+  if (!html) return undefined;
+  const text = html
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&ndash;/g, '–')
+    .replace(/&mdash;/g, '—')
+    .replace(/\s+/g, ' ')
+    .trim();
+  if (!text) return undefined;
+  return text.length > MAX_DESCRIPTION_LENGTH ? `${text.slice(0, MAX_DESCRIPTION_LENGTH - 1)}…` : text;
+}
+
+function toGoal(assignment: CanvasAssignment, categoryId: string): IndividualGoal {
+  return {
+    id: assignmentGoalId(assignment.id),
+    title: assignment.name,
+    description: plainText(assignment.description),
+    deadline: assignment.due_at ? new Date(assignment.due_at) : undefined,
+    completed: isSubmitted(assignment),
+    categoryId,
+  };
+}
+
+export function planCanvasSync(
+  snapshot: CanvasSnapshot,
+  categories: Goal[],
+  goalsByCategory: Record<string, IndividualGoal[]>,
+  state: CanvasSyncState
+): CanvasSyncPlan {
+  const summary: CanvasSyncSummary = {
+    coursesAdded: 0,
+    assignmentsAdded: 0,
+    assignmentsUpdated: 0,
+    assignmentsCompleted: 0,
+    assignmentsRemoved: 0,
+  };
+  const nextState: CanvasSyncState = { lastSyncedAt: state.lastSyncedAt, assignments: { ...state.assignments } };
+  const changedGoals: Record<string, IndividualGoal[]> = {};
+  let nextCategories = categories;
+
+  for (const course of snapshot.courses) {
+    const categoryId = courseCategoryId(course.id);
+
+    // Existing categories keep whatever title the user gave them
+    if (!nextCategories.some(category => category.id === categoryId)) {
+      const category: Goal = { id: categoryId, title: course.name, goalCount: 0, completedCount: 0, type: 'output' };
+      const outputs = nextCategories.filter(c => c.type === 'output');
+      const inputs = nextCategories.filter(c => c.type === 'input');
+      nextCategories = [...outputs, category, ...inputs];
+      summary.coursesAdded++;
+    }
+
+    const assignments = snapshot.assignmentsByCourse[course.id] ?? [];
+    const incoming = new Map(assignments.map(a => [assignmentGoalId(a.id), a]));
+    const existing = goalsByCategory[categoryId] ?? [];
+    let changed = false;
+
+    const kept = existing.flatMap(goal => {
+      if (!isCanvasGoal(goal)) return [goal];
+
+      const assignment = incoming.get(goal.id);
+      incoming.delete(goal.id);
+      if (!assignment) {
+        delete nextState.assignments[goal.id];
+        summary.assignmentsRemoved++;
+        changed = true;
+        return [];
+      }
+
+      const print = fingerprint(assignment);
+      if (state.assignments[goal.id] === print) return [goal];
+      nextState.assignments[goal.id] = print;
+
+      const fresh = toGoal(assignment, categoryId);
+      // Canvas never un-completes a goal the user ticked off themselves
+      const updated = { ...goal, title: fresh.title, deadline: fresh.deadline, completed: fresh.completed || goal.completed };
+      if (updated.completed && !goal.completed) summary.assignmentsCompleted++;
+      summary.assignmentsUpdated++;
+      changed = true;
+      return [updated];
+    });
+
+    const added = [...incoming.values()].map(assignment => {
+      nextState.assignments[assignmentGoalId(assignment.id)] = fingerprint(assignment);
+      summary.assignmentsAdded++;
+      return toGoal(assignment, categoryId);
+    });
+
+    if (changed || added.length > 0 || !goalsByCategory[categoryId]) {
+      changedGoals[categoryId] = [...kept, ...added];
+    }
+  }
+
+  return { categories: nextCategories, goalsByCategory: changedGoals, state: nextState, summary };
+}
+
+// Runtime: talks to Canvas and writes the plan into the stores.
+
+export type CanvasSyncStatus = 'idle' | 'syncing' | 'error';
+
+export interface CanvasSyncInfo {
+  status: CanvasSyncStatus;
+  lastSyncedAt: string | null;
+  error: string | null;
+  summary: CanvasSyncSummary | null;
+}
+
+type Listener = () => void;
+
+let syncState = readJSON(CANVAS_SYNC_STORAGE_KEY, EMPTY_SYNC_STATE);
+let info: CanvasSyncInfo = { status: 'idle', lastSyncedAt: syncState.lastSyncedAt, error: null, summary: null };
+let inFlight: Promise<CanvasSyncSummary> | null = null;
+const listeners = new Set<Listener>();
+
+function setInfo(next: Partial<CanvasSyncInfo>) {
+  info = { ...info, ...next };
+  listeners.forEach(listener => listener());
+}
+
+onStorageScopeChange(() => {
+  syncState = readJSON(CANVAS_SYNC_STORAGE_KEY, EMPTY_SYNC_STATE);
+  setInfo({ status: 'idle', lastSyncedAt: syncState.lastSyncedAt, error: null, summary: null });
+});
+
+export function subscribeToCanvasSync(listener: Listener) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getCanvasSyncInfo(): CanvasSyncInfo {
+  return info;
+}
+
+// Canvas sign-in provides the token; a personal access token works for
+// development against a real or fake Canvas.
+function getAccessToken() {
+  const session = getAuthState().session;
+  if (session?.provider === 'canvas') return session.accessToken;
+  return import.meta.env.VITE_CANVAS_ACCESS_TOKEN ?? null;
+}
+
+export function isCanvasConnected() {
+  return Boolean(import.meta.env.VITE_CANVAS_BASE_URL && getAccessToken());
+}
+
+async function fetchSnapshot(client: CanvasClient, signal?: AbortSignal): Promise<CanvasSnapshot> {
+  const courses = await client.listCourses(signal);
+  const assignmentsByCourse: Record<number, CanvasAssignment[]> = {};
+  for (const course of courses) {
+    assignmentsByCourse[course.id] = await client.listAssignments(course.id, signal);
+  }
+  return { courses, assignmentsByCourse };
+}
+
+async function runSync(signal?: AbortSignal) {
+  const baseUrl = import.meta.env.VITE_CANVAS_BASE_URL;
+  const accessToken = getAccessToken();
+  if (!baseUrl || !accessToken) throw new CanvasError('Canvas is not connected.');
+
+  let snapshot: CanvasSnapshot;
+  try {
+    snapshot = await fetchSnapshot(createCanvasClient({ baseUrl, accessToken }), signal);
+  } catch (e) {
+    // An expired Canvas sign-in gets one refresh before giving up
+    if (!(e instanceof CanvasError && e.status === 401 && getAuthState().session?.provider === 'canvas')) throw e;
+    await refreshSession();
+    snapshot = await fetchSnapshot(createCanvasClient({ baseUrl, accessToken: getAccessToken() ?? '' }), signal);
+  }
+
+  const plan = planCanvasSync(snapshot, getCategories(), getAllIndividualGoals(), syncState);
+  setCategories(plan.categories);
+  Object.entries(plan.goalsByCategory).forEach(([categoryId, goals]) => setIndividualGoals(categoryId, goals));
+  // Undo steps can't be replayed over the imported goals
+  clearHistory();
+
+  syncState = { ...plan.state, lastSyncedAt: new Date().toISOString() };
+  writeJSON(CANVAS_SYNC_STORAGE_KEY, syncState);
+  return plan.summary;
+}
+
+export function syncCanvas(signal?: AbortSignal): Promise<CanvasSyncSummary> {
+  if (inFlight) return inFlight;
+
+  setInfo({ status: 'syncing', error: null });
+  inFlight = runSync(signal)
+    .then(summary => {
+      setInfo({ status: 'idle', lastSyncedAt: syncState.lastSyncedAt, summary });
+      return summary;
+    })
+    .catch(error => {
+      setInfo({ status: 'error', error: error instanceof Error ? error.message : 'Canvas sync failed.' });
+      throw error;
+    })
+    .finally(() => {
+      inFlight = null;
+    });
+  return inFlight;
+}
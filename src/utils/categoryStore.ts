@@ -0,0 +1,45 @@
+import { Goal } from '../types/Goal';
+import { DEFAULT_CATEGORIES } from '../config/defaultGoals';
+import { renumber, sortByOrder } from './order';
+import { onStorageScopeChange, readJSON, writeJSON } from './storage';
+
+// The Lab's input/output categories, shared so that screens outside the Lab
+// (deep links, reminders) can look a category up by id.
+export const CATEGORIES_STORAGE_KEY = 'dejavu-lab-goals';
+
+type Listener = () => void;
+
+function load(): Goal[] {
+  return renumber(sortByOrder(readJSON(CATEGORIES_STORAGE_KEY, DEFAULT_CATEGORIES)));
+}
+
+let categories = load();
+const listeners = new Set<Listener>();
+
+onStorageScopeChange(() => {
+  categories = load();
+  listeners.forEach(listener => listener());
+});
+
+export function subscribeToCategories(listener: Listener) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getCategories(): Goal[] {
+  return categories;
+}
+
+export function getCategory(id: string): Goal | undefined {
+  return categories.find(category => category.id === id);
+}
+
+export function setCategories(update: Goal[] | ((prev: Goal[]) => Goal[])) {
+  const next = typeof update === 'function' ? update(categories) : update;
+  if (next === categories) return;
+  categories = renumber(next);
+  writeJSON(CATEGORIES_STORAGE_KEY, categories);
+  listeners.forEach(listener => listener());
+}
@@ -0,0 +1,36 @@
+import { Message } from '../types/Chat';
+import { listKeys, readJSON, removeJSON, writeJSON } from './storage';
+
+// Each conversation is stored under its own key so that long threads don't
+// have to be rewritten when another chat changes.
+export const CHAT_STORAGE_PREFIX = 'dejavu-chat-';
+
+export const HOME_THREAD_ID = 'home';
+export const HUB_THREAD_ID = 'hub';
+
+export function categoryThreadId(categoryId: string) {
+  return `category-${categoryId}`;
+}
+
+function reviveTimestamps(key: string, value: unknown) {
+  if (key === 'timestamp' && typeof value === 'string') return new Date(value);
+  return value;
+}
+
+export function loadChatThread(threadId: string): Message[] {
+  const messages = readJSON<Message[]>(`${CHAT_STORAGE_PREFIX}${threadId}`, [], reviveTimestamps);
+  // A reply that was still streaming when the app closed will never finish
+  return messages.map(m => (m.status === 'streaming' ? { ...m, status: 'incomplete' } : m));
+}
+
+export function saveChatThread(threadId: string, messages: Message[]) {
+  writeJSON(`${CHAT_STORAGE_PREFIX}${threadId}`, messages);
+}
+
+export function deleteChatThread(threadId: string) {
+  removeJSON(`${CHAT_STORAGE_PREFIX}${threadId}`);
+}
+
+export function listChatThreadIds(): string[] {
+  return listKeys(CHAT_STORAGE_PREFIX).map(key => key.slice(CHAT_STORAGE_PREFIX.length));
+}
@@ -0,0 +1,65 @@
+import { IndividualGoal } from '../types/Goal';
+import { IndividualGoalsByCategory } from './goalStore';
+import { isGoalComplete } from './recurrence';
+
+// "Blocked by" links between goals, which may sit in different categories.
+// Links to goals that have since been deleted are ignored.
+
+export class DependencyCycleError extends Error {
+  constructor(message: string, public readonly path: string[]) {
+    super(message);
+    this.name = 'DependencyCycleError';
+  }
+}
+
+export type GoalsById = Map<string, IndividualGoal>;
+
+export function indexGoals(goalsByCategory: IndividualGoalsByCategory): GoalsById {
+  return new Map(Object.values(goalsByCategory).flat().map(goal => [goal.id, goal]));
+}
+
+// The chain of goals from `from` to `to` through blockedBy links, if any
+function findPath(goals: GoalsById, from: string, to: string, seen = new Set<string>()): string[] | null {
+  if (from === to) return [from];
+  if (seen.has(from)) return null;
+  seen.add(from);
+  for (const next of goals.get(from)?.blockedBy ?? []) {
+    const rest = findPath(goals, next, to, seen);
+    if (rest) return [from, ...rest];
+  }
+  return null;
+}
+
+// Making `goalId` wait for `blockerId` loops if the blocker already waits,
+// directly or not, for the goal
+export function findCycle(goals: GoalsById, goalId: string, blockerId: string): string[] | null {
+  const path = findPath(goals, blockerId, goalId);
+  return path ? [goalId, ...path] : null;
+}
+
+export function addBlocker(goals: GoalsById, goal: IndividualGoal, blockerId: string): string[] {
+  const blockedBy = goal.blockedBy ?? [];
+  if (blockedBy.includes(blockerId)) return blockedBy;
+  const cycle = findCycle(goals, goal.id, blockerId);
+  if (cycle) {
+    const titles = cycle.map(id => `"${goals.get(id)?.title ?? id}"`);
+    throw new DependencyCycleError(`That would make a loop: ${titles.join(' waits on ')}.`, cycle);
+  }
+  return [...blockedBy, blockerId];
+}
+
+export function removeBlocker(goal: IndividualGoal, blockerId: string): string[] {
+  return (goal.blockedBy ?? []).filter(id => id !== blockerId);
+}
+
+// Blockers that still have to be done, in the order they were added
+export function openBlockers(goals: GoalsById, goal: IndividualGoal, now = new Date()): IndividualGoal[] {
+  return (goal.blockedBy ?? []).flatMap(id => {
+    const blocker = goals.get(id);
+    return blocker && !isGoalComplete(blocker, now) ? [blocker] : [];
+  });
+}
+
+export function isBlocked(goals: GoalsById, goal: IndividualGoal, now = new Date()) {
+  return openBlockers(goals, goal, now).length > 0;
+}
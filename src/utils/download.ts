@@ -0,0 +1,9 @@
+// Saves generated text (exports, backups) through the browser's download flow.
+export function downloadFile(name: string, contents: string, type: string) {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+}
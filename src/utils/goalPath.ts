@@ -0,0 +1,52 @@
+import { IndividualGoal } from '../types/Goal';
+import { isGoalComplete } from './recurrence';
+
+// Pure planning for the Duolingo-style path on the goal screen. Goals are
+// walked in list order: each one unlocks once everything before it is done.
+
+export const UNIT_SIZE = 5;
+
+export type PathNodeState = 'completed' | 'current' | 'locked';
+
+export interface PathNode {
+  goal: IndividualGoal;
+  state: PathNodeState;
+  // Position along the whole path, used to wind nodes left and right
+  step: number;
+}
+
+export interface PathUnit {
+  number: number;
+  nodes: PathNode[];
+  completed: boolean;
+}
+
+// Horizontal offsets, in steps of the node width, that make the path wind
+const WINDING = [0, 0.5, 1, 0.5, 0, -0.5, -1, -0.5];
+
+export function windingOffset(step: number) {
+  return WINDING[step % WINDING.length];
+}
+
+// Habits count as completed once they're done for the current period.
+export function buildGoalPath(goals: IndividualGoal[], now = new Date()): PathUnit[] {
+  const completed = goals.map(goal => isGoalComplete(goal, now));
+  const firstOpen = completed.indexOf(false);
+  const nodes: PathNode[] = goals.map((goal, step) => ({
+    goal,
+    step,
+    // A goal ticked off out of order still shows as done
+    state: completed[step] ? 'completed' : step === firstOpen ? 'current' : 'locked',
+  }));
+
+  const units: PathUnit[] = [];
+  for (let i = 0; i < nodes.length; i += UNIT_SIZE) {
+    const unitNodes = nodes.slice(i, i + UNIT_SIZE);
+    units.push({
+      number: units.length + 1,
+      nodes: unitNodes,
+      completed: unitNodes.every(node => node.state === 'completed'),
+    });
+  }
+  return units;
+}
@@ -0,0 +1,102 @@
+import { Goal, IndividualGoal } from '../types/Goal';
+import { createDefaultIndividualGoals } from '../config/defaultGoals';
+import { onStorageScopeChange, readJSON, writeJSON } from './storage';
+import { renumber, sortByOrder } from './order';
+import { isGoalComplete } from './recurrence';
+
+export const INDIVIDUAL_GOALS_STORAGE_KEY = 'dejavu-individual-goals';
+
+export type IndividualGoalsByCategory = Record<string, IndividualGoal[]>;
+
+type Listener = () => void;
+
+const EMPTY: IndividualGoal[] = [];
+
+// JSON.stringify turns Dates into ISO strings; turn them back on the way in.
+function reviveDates(key: string, value: unknown) {
+  if (key === 'deadline' && typeof value === 'string') {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+  return value;
+}
+
+function renumberAll(next: IndividualGoalsByCategory, sort = false): IndividualGoalsByCategory {
+  return Object.fromEntries(Object.entries(next).map(([categoryId, goals]) => [
+    categoryId,
+    renumber(sort ? sortByOrder(goals) : goals),
+  ]));
+}
+
+function load(): IndividualGoalsByCategory {
+  return renumberAll(readJSON(INDIVIDUAL_GOALS_STORAGE_KEY, createDefaultIndividualGoals(), reviveDates), true);
+}
+
+let goalsByCategory = load();
+const listeners = new Set<Listener>();
+
+onStorageScopeChange(() => {
+  goalsByCategory = load();
+  listeners.forEach(listener => listener());
+});
+
+function commit(next: IndividualGoalsByCategory) {
+  goalsByCategory = next;
+  writeJSON(INDIVIDUAL_GOALS_STORAGE_KEY, goalsByCategory);
+  listeners.forEach(listener => listener());
+}
+
+export function subscribeToIndividualGoals(listener: Listener) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getAllIndividualGoals(): IndividualGoalsByCategory {
+  return goalsByCategory;
+}
+
+export function getIndividualGoals(categoryId: string): IndividualGoal[] {
+  return goalsByCategory[categoryId] ?? EMPTY;
+}
+
+export function setIndividualGoals(
+  categoryId: string,
+  update: IndividualGoal[] | ((prev: IndividualGoal[]) => IndividualGoal[])
+) {
+  const prev = getIndividualGoals(categoryId);
+  const next = typeof update === 'function' ? update(prev) : update;
+  if (next === prev) return;
+  // The list's own order is the one to keep
+  commit({ ...goalsByCategory, [categoryId]: renumber(next) });
+}
+
+// Swaps in a whole new set of goals, e.g. when restoring a backup.
+export function replaceAllIndividualGoals(next: IndividualGoalsByCategory) {
+  commit(renumberAll(next));
+}
+
+// Registers a freshly created category with an empty goal list.
+export function createCategoryGoals(categoryId: string) {
+  if (goalsByCategory[categoryId]) return;
+  commit({ ...goalsByCategory, [categoryId]: [] });
+}
+
+// Fills in a category's counts from its individual goals so they never drift
+// from what GoalDetailScreen shows.
+export function withGoalCounts(goal: Goal, individualGoals: IndividualGoal[] = getIndividualGoals(goal.id)): Goal {
+  const completedCount = individualGoals.filter(g => isGoalComplete(g)).length;
+  if (goal.goalCount === individualGoals.length && goal.completedCount === completedCount) {
+    return goal;
+  }
+  return { ...goal, goalCount: individualGoals.length, completedCount };
+}
+
+// Drops the goal list of a category that was removed from the Lab.
+export function deleteCategoryGoals(categoryId: string) {
+  if (!goalsByCategory[categoryId]) return;
+  const rest = { ...goalsByCategory };
+  delete rest[categoryId];
+  commit(rest);
+}
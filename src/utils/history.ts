@@ -0,0 +1,104 @@
+import { toast } from 'sonner';
+import { onStorageScopeChange } from './storage';
+
+// Undo/redo for Lab and goal edits. Every change goes through a command that
+// knows how to apply and revert itself; the stacks are bounded and belong to
+// the current user only.
+
+export interface Command {
+  label: string;
+  apply(): void;
+  revert(): void;
+}
+
+export interface HistoryState {
+  undoLabel: string | null;
+  redoLabel: string | null;
+}
+
+interface ExecuteOptions {
+  // Show a toast with an Undo button, for changes that are easy to regret
+  notify?: boolean;
+}
+
+export const MAX_HISTORY = 50;
+
+type Listener = () => void;
+
+let undoStack: Command[] = [];
+let redoStack: Command[] = [];
+let state: HistoryState = { undoLabel: null, redoLabel: null };
+const listeners = new Set<Listener>();
+
+function publish() {
+  state = {
+    undoLabel: undoStack[undoStack.length - 1]?.label ?? null,
+    redoLabel: redoStack[redoStack.length - 1]?.label ?? null,
+  };
+  listeners.forEach(listener => listener());
+}
+
+export function clearHistory() {
+  undoStack = [];
+  redoStack = [];
+  publish();
+}
+
+onStorageScopeChange(clearHistory);
+
+export function subscribeToHistory(listener: Listener) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getHistoryState(): HistoryState {
+  return state;
+}
+
+export function execute(command: Command, { notify = false }: ExecuteOptions = {}) {
+  command.apply();
+  undoStack = [...undoStack, command].slice(-MAX_HISTORY);
+  redoStack = [];
+  publish();
+
+  if (notify) {
+    toast(command.label, {
+      action: {
+        label: 'Undo',
+        // Only if nothing else has been done since
+        onClick: () => {
+          if (undoStack[undoStack.length - 1] === command) undo();
+        },
+      },
+    });
+  }
+}
+
+export function undo() {
+  const command = undoStack[undoStack.length - 1];
+  if (!command) return;
+  command.revert();
+  undoStack = undoStack.slice(0, -1);
+  redoStack = [...redoStack, command];
+  publish();
+}
+
+export function redo() {
+  const command = redoStack[redoStack.length - 1];
+  if (!command) return;
+  command.apply();
+  redoStack = redoStack.slice(0, -1);
+  undoStack = [...undoStack, command].slice(-MAX_HISTORY);
+  publish();
+}
+
+// Several commands that undo and redo as one step
+export function batch(label: string, commands: Command[]): Command {
+  return {
+    label,
+    apply: () => commands.forEach(command => command.apply()),
+    revert: () => [...commands].reverse().forEach(command => command.revert()),
+  };
+}
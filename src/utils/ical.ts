@@ -0,0 +1,205 @@
+// Just enough RFC 5545 to round-trip goals through calendar apps: VEVENTs for
+// goals with a deadline (so they show up on the calendar), VTODOs for the rest.
+
+export interface ICalItem {
+  uid: string;
+  kind: 'VEVENT' | 'VTODO';
+  summary: string;
+  description?: string;
+  due?: Date;
+  completed: boolean;
+  categories: string[];
+  // Our own category id, when the item was exported by this app
+  categoryId?: string;
+  lastModified?: Date;
+}
+
+const PRODID = '-//DeJaVu Mini//Goals//EN';
+const MAX_LINE_OCTETS = 75;
+
+function escapeText(value: string) {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+function unescapeText(value: string) {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+// Splits on unescaped commas (CATEGORIES is a list)
+function splitList(value: string) {
+  return value.split(/(?<!\\),/).map(part => unescapeText(part).trim()).filter(Boolean);
+}
+
+function formatDateTime(date: Date) {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function parseDateTime(value: string, params: Record<string, string>): Date | undefined {
+  const date = value.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (date || params.VALUE === 'DATE') {
+    if (!date) return undefined;
+    // All-day: treat the deadline as the end of that local day
+    return new Date(Number(date[1]), Number(date[2]) - 1, Number(date[3]), 23, 59);
+  }
+
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/);
+  if (!match) return undefined;
+  const [y, mo, d, h, mi, s] = match.slice(1, 7).map(Number);
+  // Floating and TZID times are read as local time
+  return match[7] === 'Z'
+    ? new Date(Date.UTC(y, mo - 1, d, h, mi, s))
+    : new Date(y, mo - 1, d, h, mi, s);
+}
+
+// Lines longer than 75 octets are folded with CRLF + space
+function foldLine(line: string) {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+export function serializeCalendar(items: ICalItem[], now = new Date()): string {
+  const stamp = formatDateTime(now);
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${PRODID}`, 'CALSCALE:GREGORIAN', 'X-WR-CALNAME:DeJaVu Goals'];
+
+  for (const item of items) {
+    lines.push(`BEGIN:${item.kind}`);
+    lines.push(`UID:${escapeText(item.uid)}`);
+    lines.push(`DTSTAMP:${stamp}`);
+    if (item.lastModified) lines.push(`LAST-MODIFIED:${formatDateTime(item.lastModified)}`);
+    lines.push(`SUMMARY:${escapeText(item.summary)}`);
+    if (item.description) lines.push(`DESCRIPTION:${escapeText(item.description)}`);
+    if (item.due) {
+      lines.push(item.kind === 'VEVENT' ? `DTSTART:${formatDateTime(item.due)}` : `DUE:${formatDateTime(item.due)}`);
+    }
+    if (item.categories.length > 0) lines.push(`CATEGORIES:${item.categories.map(escapeText).join(',')}`);
+    if (item.categoryId) lines.push(`X-DEJAVU-CATEGORY-ID:${escapeText(item.categoryId)}`);
+    if (item.kind === 'VTODO') {
+      lines.push(`STATUS:${item.completed ? 'COMPLETED' : 'NEEDS-ACTION'}`);
+    } else {
+      // VEVENT has no completed status of its own
+      lines.push(`X-DEJAVU-COMPLETED:${item.completed ? 'TRUE' : 'FALSE'}`);
+    }
+    lines.push(`END:${item.kind}`);
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+function parseContentLine(line: string): ContentLine | null {
+  // The value starts at the first colon outside a quoted parameter
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const [name, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const [key, ...rest] = param.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+export class ICalParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ICalParseError';
+  }
+}
+
+export function parseCalendar(text: string): ICalItem[] {
+  const lines = text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  if (!lines.some(line => line.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+    throw new ICalParseError('This file is not an iCalendar (.ics) file.');
+  }
+
+  const items: ICalItem[] = [];
+  let current: Partial<ICalItem> & { kind?: ICalItem['kind'] } | null = null;
+
+  for (const raw of lines) {
+    const line = parseContentLine(raw.trimEnd());
+    if (!line) continue;
+
+    if (line.name === 'BEGIN' && (line.value === 'VEVENT' || line.value === 'VTODO')) {
+      current = { kind: line.value, categories: [], completed: false };
+      continue;
+    }
+    if (!current) continue;
+
+    switch (line.name) {
+      case 'END':
+        if (line.value === current.kind) {
+          if (current.uid && current.summary !== undefined) items.push(current as ICalItem);
+          current = null;
+        }
+        break;
+      case 'UID':
+        current.uid = unescapeText(line.value);
+        break;
+      case 'SUMMARY':
+        current.summary = unescapeText(line.value);
+        break;
+      case 'DESCRIPTION':
+        current.description = unescapeText(line.value) || undefined;
+        break;
+      case 'DUE':
+        current.due = parseDateTime(line.value, line.params);
+        break;
+      case 'DTSTART':
+        // For VTODOs DUE wins; for events the start is the deadline
+        if (current.kind === 'VEVENT' || !current.due) current.due = parseDateTime(line.value, line.params);
+        break;
+      case 'CATEGORIES':
+        current.categories = [...(current.categories ?? []), ...splitList(line.value)];
+        break;
+      case 'X-DEJAVU-CATEGORY-ID':
+        current.categoryId = unescapeText(line.value);
+        break;
+      case 'STATUS':
+        current.completed = line.value.toUpperCase() === 'COMPLETED';
+        break;
+      case 'COMPLETED':
+        current.completed = true;
+        break;
+      case 'X-DEJAVU-COMPLETED':
+        current.completed = line.value.toUpperCase() === 'TRUE';
+        break;
+      case 'LAST-MODIFIED':
+        current.lastModified = parseDateTime(line.value, line.params);
+        break;
+    }
+  }
+
+  return items;
+}
@@ -0,0 +1,47 @@
+import { Goal, Influence, InfluenceLink } from '../types/Goal';
+import { onStorageScopeChange, readJSON, writeJSON } from './storage';
+
+// Which inputs the user says fuel which outputs, drawn as edges in the Lab.
+export const INFLUENCES_STORAGE_KEY = 'dejavu-influences';
+
+type Listener = () => void;
+
+let influences: Influence[] = readJSON<Influence[]>(INFLUENCES_STORAGE_KEY, []);
+const listeners = new Set<Listener>();
+
+onStorageScopeChange(() => {
+  influences = readJSON<Influence[]>(INFLUENCES_STORAGE_KEY, []);
+  listeners.forEach(listener => listener());
+});
+
+export function subscribeToInfluences(listener: Listener) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getInfluences(): Influence[] {
+  return influences;
+}
+
+export function setInfluences(update: Influence[] | ((prev: Influence[]) => Influence[])) {
+  const next = typeof update === 'function' ? update(influences) : update;
+  if (next === influences) return;
+  influences = next;
+  writeJSON(INFLUENCES_STORAGE_KEY, influences);
+  listeners.forEach(listener => listener());
+}
+
+// Only influences that still run from an input to an output are shown. One
+// whose category was archived or switched sides is kept, and comes back if
+// the change is reversed.
+export function resolveInfluences(influences: Influence[], categories: Goal[]): InfluenceLink[] {
+  const byId = new Map(categories.filter(category => !category.archived).map(category => [category.id, category]));
+  return influences.flatMap(influence => {
+    const input = byId.get(influence.inputId);
+    const output = byId.get(influence.outputId);
+    if (input?.type !== 'input' || output?.type !== 'output') return [];
+    return [{ id: influence.id, input, output, weight: influence.weight }];
+  });
+}
@@ -0,0 +1,254 @@
+import { Goal, IndividualGoal } from '../types/Goal';
+
+// Structured edits the central hub AI can propose for the Lab. They travel as
+// a fenced ```dejavu-actions JSON block at the end of an AI reply, so they
+// work with any provider, and are only applied after the user confirms them.
+
+export type CategoryType = Goal['type'];
+
+export interface NewIndividualGoal {
+  title: string;
+  description?: string;
+  deadline?: string;
+}
+
+// Categories are referenced by id, or by title so that a single reply can
+// create a category and fill it with goals.
+export interface CategoryRef {
+  categoryId?: string;
+  categoryTitle?: string;
+}
+
+export type LabAction =
+  | { type: 'create_category'; title: string; categoryType: CategoryType }
+  | ({ type: 'rename_category'; title: string } & CategoryRef)
+  | ({ type: 'delete_category' } & CategoryRef)
+  | ({ type: 'add_goals'; goals: NewIndividualGoal[] } & CategoryRef);
+
+export interface LabActionChange {
+  kind: 'add' | 'change' | 'remove';
+  label: string;
+}
+
+export interface ParsedLabActions {
+  actions: LabAction[];
+  errors: string[];
+}
+
+const ACTION_BLOCK_PATTERN = /```dejavu-actions\s*([\s\S]*?)(?:```|$)/;
+
+export const LAB_ACTIONS_INSTRUCTIONS = [
+  'You can change the Lab when the user asks you to. To do so, end your reply with exactly one fenced block:',
+  '```dejavu-actions',
+  '[{"type":"create_category","title":"Exercise","categoryType":"input"},',
+  ' {"type":"add_goals","categoryTitle":"Exercise","goals":[{"title":"Run 3x a week","deadline":"2025-01-31"}]}]',
+  '```',
+  'Available actions: create_category (title, categoryType "input" or "output"), rename_category ' +
+    '(categoryId or categoryTitle, title), delete_category (categoryId or categoryTitle), add_goals ' +
+    '(categoryId or categoryTitle, goals with title, optional description and ISO deadline).',
+  'Only use the block when the user wants the Lab changed. Describe the change in plain words above it; ' +
+    'the user will confirm before anything is applied.',
+].join('\n');
+
+// The reply text without its action block, for display. Also hides a block
+// that is still being streamed in.
+export function stripActionBlock(content: string) {
+  const start = content.indexOf('```dejavu-actions');
+  return start === -1 ? content : content.slice(0, start).trimEnd();
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function nonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+function findCategory(goals: Goal[], ref: CategoryRef) {
+  if (ref.categoryId) return goals.find(g => g.id === ref.categoryId);
+  const title = ref.categoryTitle?.trim().toLowerCase();
+  return goals.find(g => g.title.trim().toLowerCase() === title);
+}
+
+function readRef(raw: Record<string, unknown>): CategoryRef | null {
+  if (nonEmptyString(raw.categoryId)) return { categoryId: raw.categoryId };
+  if (nonEmptyString(raw.categoryTitle)) return { categoryTitle: raw.categoryTitle.trim() };
+  return null;
+}
+
+function readGoals(raw: unknown): NewIndividualGoal[] | null {
+  if (!Array.isArray(raw) || raw.length === 0) return null;
+  const goals: NewIndividualGoal[] = [];
+  for (const item of raw) {
+    if (!isRecord(item) || !nonEmptyString(item.title)) return null;
+    const deadline = nonEmptyString(item.deadline) && !isNaN(new Date(item.deadline).getTime())
+      ? item.deadline
+      : undefined;
+    goals.push({
+      title: item.title.trim(),
+      description: nonEmptyString(item.description) ? item.description.trim() : undefined,
+      deadline,
+    });
+  }
+  return goals;
+}
+
+function readAction(raw: unknown): LabAction | string {
+  if (!isRecord(raw)) return 'Ignored an action that was not an object.';
+
+  switch (raw.type) {
+    case 'create_category':
+      if (!nonEmptyString(raw.title)) return 'Ignored create_category without a title.';
+      if (raw.categoryType !== 'input' && raw.categoryType !== 'output') {
+        return `Ignored create_category "${raw.title}": categoryType must be "input" or "output".`;
+      }
+      return { type: 'create_category', title: raw.title.trim(), categoryType: raw.categoryType };
+    case 'rename_category': {
+      const ref = readRef(raw);
+      if (!ref || !nonEmptyString(raw.title)) return 'Ignored rename_category without a category or title.';
+      return { type: 'rename_category', title: raw.title.trim(), ...ref };
+    }
+    case 'delete_category': {
+      const ref = readRef(raw);
+      if (!ref) return 'Ignored delete_category without a category.';
+      return { type: 'delete_category', ...ref };
+    }
+    case 'add_goals': {
+      const ref = readRef(raw);
+      const goals = readGoals(raw.goals);
+      if (!ref || !goals) return 'Ignored add_goals without a category or valid goals.';
+      return { type: 'add_goals', goals, ...ref };
+    }
+    default:
+      return `Ignored unknown action "${String(raw.type)}".`;
+  }
+}
+
+// Extracts and shape-checks the action block of an AI reply. Returns null when
+// the reply proposes no changes.
+export function parseLabActions(content: string): ParsedLabActions | null {
+  const match = content.match(ACTION_BLOCK_PATTERN);
+  if (!match) return null;
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(match[1]);
+  } catch {
+    return { actions: [], errors: ['The proposed changes could not be read.'] };
+  }
+
+  const result: ParsedLabActions = { actions: [], errors: [] };
+  for (const item of Array.isArray(raw) ? raw : [raw]) {
+    const action = readAction(item);
+    if (typeof action === 'string') result.errors.push(action);
+    else result.actions.push(action);
+  }
+  return result;
+}
+
+// Checks the actions against the current Lab, in order, so later actions can
+// refer to categories created by earlier ones. Invalid actions are dropped.
+export function validateLabActions(goals: Goal[], actions: LabAction[]): ParsedLabActions {
+  const result: ParsedLabActions = { actions: [], errors: [] };
+  let working = goals;
+
+  for (const action of actions) {
+    if (action.type === 'create_category') {
+      if (findCategory(working, { categoryTitle: action.title })) {
+        result.errors.push(`A category called "${action.title}" already exists.`);
+        continue;
+      }
+      working = [...working, { id: `pending-${action.title}`, title: action.title, goalCount: 0, completedCount: 0, type: action.categoryType }];
+      result.actions.push(action);
+      continue;
+    }
+
+    const category = findCategory(working, action);
+    if (!category) {
+      result.errors.push(`No category matches "${action.categoryTitle ?? action.categoryId}".`);
+      continue;
+    }
+    if (action.type === 'delete_category') {
+      working = working.filter(g => g !== category);
+    } else if (action.type === 'rename_category') {
+      working = working.map(g => (g === category ? { ...g, title: action.title } : g));
+    }
+    result.actions.push(action);
+  }
+
+  return result;
+}
+
+// Human-readable diff shown in the confirmation card.
+export function describeLabActions(goals: Goal[], actions: LabAction[]): LabActionChange[] {
+  return actions.flatMap((action): LabActionChange[] => {
+    const name = action.type === 'create_category'
+      ? action.title
+      : findCategory(goals, action)?.title ?? action.categoryTitle ?? action.categoryId ?? '';
+
+    switch (action.type) {
+      case 'create_category':
+        return [{ kind: 'add', label: `New ${action.categoryType} category "${action.title}"` }];
+      case 'rename_category':
+        return [{ kind: 'change', label: `Rename "${name}" to "${action.title}"` }];
+      case 'delete_category':
+        return [{ kind: 'remove', label: `Delete category "${name}" and its goals` }];
+      case 'add_goals':
+        return action.goals.map(goal => ({ kind: 'add' as const, label: `"${goal.title}" in ${name}` }));
+    }
+  });
+}
+
+export interface LabActionResult {
+  goals: Goal[];
+  addedGoals: Record<string, IndividualGoal[]>;
+  deletedCategoryIds: string[];
+}
+
+// Applies validated actions to the Lab categories. New individual goals and
+// deleted categories are returned for the caller to sync with the goal store.
+export function applyLabActions(goals: Goal[], actions: LabAction[], now = Date.now()): LabActionResult {
+  const result: LabActionResult = { goals, addedGoals: {}, deletedCategoryIds: [] };
+  let nextId = now;
+  const newId = () => (nextId++).toString();
+
+  for (const action of actions) {
+    if (action.type === 'create_category') {
+      const category: Goal = { id: newId(), title: action.title, goalCount: 0, completedCount: 0, type: action.categoryType };
+      // Same placement as the Lab's add buttons
+      const outputs = result.goals.filter(g => g.type === 'output');
+      const inputs = result.goals.filter(g => g.type === 'input');
+      result.goals = [...outputs, category, ...inputs];
+      continue;
+    }
+
+    const category = findCategory(result.goals, action);
+    if (!category) continue;
+
+    switch (action.type) {
+      case 'rename_category':
+        result.goals = result.goals.map(g => (g.id === category.id ? { ...g, title: action.title } : g));
+        break;
+      case 'delete_category':
+        result.goals = result.goals.filter(g => g.id !== category.id);
+        result.deletedCategoryIds.push(category.id);
+        break;
+      case 'add_goals':
+        result.addedGoals[category.id] = [
+          ...(result.addedGoals[category.id] ?? []),
+          ...action.goals.map((goal): IndividualGoal => ({
+            id: newId(),
+            title: goal.title,
+            description: goal.description,
+            deadline: goal.deadline ? new Date(goal.deadline) : undefined,
+            completed: false,
+            categoryId: category.id,
+          })),
+        ];
+        break;
+    }
+  }
+
+  return result;
+}
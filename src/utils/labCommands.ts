@@ -0,0 +1,285 @@
+import { XYPosition } from 'reactflow';
+import { Goal, IndividualGoal, Influence, InfluenceWeight } from '../types/Goal';
+import { Message } from '../types/Chat';
+import { Command } from './history';
+import { getCategories, setCategories } from './categoryStore';
+import { createCategoryGoals, deleteCategoryGoals, getAllIndividualGoals, getIndividualGoals, setIndividualGoals } from './goalStore';
+import { categoryThreadId, deleteChatThread, loadChatThread, saveChatThread } from './chatStore';
+import { getInfluences, setInfluences } from './influenceStore';
+import { getPinnedPositions, PinnedPositions, setPinnedPositions } from './layoutStore';
+import { dateKey, toggleCompletion } from './recurrence';
+import { checkInDate } from './streaks';
+
+// Undoable Lab and goal mutations. Commands look things up by id and record
+// what they replaced when applied, so a redo after other edits still lands
+// on the right item.
+
+function insertAt<T>(list: T[], index: number, item: T) {
+  const at = Math.max(0, Math.min(index, list.length));
+  return [...list.slice(0, at), item, ...list.slice(at)];
+}
+
+function sortByIds<T extends { id: string }>(list: T[], ids: string[]) {
+  const rank = new Map(ids.map((id, i) => [id, i]));
+  // Anything the order doesn't mention keeps its place at the end
+  return [...list].sort((a, b) => (rank.get(a.id) ?? ids.length) - (rank.get(b.id) ?? ids.length));
+}
+
+export function addGoalCommand(goal: IndividualGoal): Command {
+  return {
+    label: `Added "${goal.title}"`,
+    apply: () => setIndividualGoals(goal.categoryId, prev => (prev.some(g => g.id === goal.id) ? prev : [...prev, goal])),
+    revert: () => setIndividualGoals(goal.categoryId, prev => prev.filter(g => g.id !== goal.id)),
+  };
+}
+
+export function updateGoalCommand(
+  categoryId: string,
+  goalId: string,
+  patch: Partial<Omit<IndividualGoal, 'id' | 'categoryId'>>,
+  label = 'Edited goal'
+): Command {
+  let previous: Partial<IndividualGoal> = {};
+  return {
+    label,
+    apply: () => setIndividualGoals(categoryId, prev => prev.map(goal => {
+      if (goal.id !== goalId) return goal;
+      previous = Object.fromEntries(Object.keys(patch).map(key => [key, goal[key as keyof IndividualGoal]]));
+      return { ...goal, ...patch };
+    })),
+    revert: () => setIndividualGoals(categoryId, prev => prev.map(goal => (goal.id === goalId ? { ...goal, ...previous } : goal))),
+  };
+}
+
+export function toggleGoalCommand(goal: IndividualGoal, date = checkInDate(goal)): Command {
+  // Habits are ticked off for the day rather than for good; late at night,
+  // for the day that's just ended if it was missed
+  if (goal.recurrence) {
+    const done = goal.completions?.includes(dateKey(date));
+    return updateGoalCommand(
+      goal.categoryId,
+      goal.id,
+      { completions: toggleCompletion(goal, date) },
+      done ? `Unchecked "${goal.title}"` : `Checked in "${goal.title}"`
+    );
+  }
+  return updateGoalCommand(
+    goal.categoryId,
+    goal.id,
+    { completed: !goal.completed },
+    goal.completed ? `Reopened "${goal.title}"` : `Completed "${goal.title}"`
+  );
+}
+
+export function deleteGoalCommand(goal: IndividualGoal): Command {
+  let removed: { goal: IndividualGoal; index: number } | null = null;
+  return {
+    label: `Deleted "${goal.title}"`,
+    apply: () => setIndividualGoals(goal.categoryId, prev => {
+      const index = prev.findIndex(g => g.id === goal.id);
+      if (index === -1) return prev;
+      removed = { goal: prev[index], index };
+      return prev.filter(g => g.id !== goal.id);
+    }),
+    revert: () => {
+      const restore = removed;
+      if (!restore) return;
+      setIndividualGoals(goal.categoryId, prev => insertAt(prev, restore.index, restore.goal));
+    },
+  };
+}
+
+export function reorderGoalsCommand(categoryId: string, orderedIds: string[], label = 'Reordered goals'): Command {
+  let previous: string[] = [];
+  return {
+    label,
+    apply: () => {
+      previous = getIndividualGoals(categoryId).map(goal => goal.id);
+      setIndividualGoals(categoryId, prev => sortByIds(prev, orderedIds));
+    },
+    revert: () => setIndividualGoals(categoryId, prev => sortByIds(prev, previous)),
+  };
+}
+
+// Files every goal of one category under another instead
+export function moveGoalsCommand(fromId: string, toId: string): Command {
+  let movedIds: string[] = [];
+  const move = (source: string, target: string, ids: string[] | null) => {
+    const moving = getIndividualGoals(source).filter(goal => ids === null || ids.includes(goal.id));
+    movedIds = moving.map(goal => goal.id);
+    setIndividualGoals(source, prev => prev.filter(goal => !movedIds.includes(goal.id)));
+    setIndividualGoals(target, prev => [...prev, ...moving.map(goal => ({ ...goal, categoryId: target }))]);
+  };
+  return {
+    label: 'Moved goals',
+    apply: () => move(fromId, toId, null),
+    revert: () => move(toId, fromId, movedIds),
+  };
+}
+
+// Everything that goes away with a category, so it can come back in one piece
+interface CategorySnapshot {
+  category: Goal;
+  index: number;
+  goals: IndividualGoal[];
+  messages: Message[];
+  influences: Influence[];
+}
+
+function removeCategory(id: string): CategorySnapshot | null {
+  const categories = getCategories();
+  const index = categories.findIndex(category => category.id === id);
+  if (index === -1) return null;
+
+  const snapshot = {
+    category: categories[index],
+    index,
+    goals: getAllIndividualGoals()[id] ?? [],
+    messages: loadChatThread(categoryThreadId(id)),
+    influences: getInfluences().filter(influence => influence.inputId === id || influence.outputId === id),
+  };
+  setCategories(prev => prev.filter(category => category.id !== id));
+  deleteCategoryGoals(id);
+  deleteChatThread(categoryThreadId(id));
+  if (snapshot.influences.length > 0) {
+    setInfluences(prev => prev.filter(influence => !snapshot.influences.includes(influence)));
+  }
+  return snapshot;
+}
+
+function restoreCategory({ category, index, goals, messages, influences }: CategorySnapshot) {
+  setIndividualGoals(category.id, goals);
+  if (messages.length > 0) saveChatThread(categoryThreadId(category.id), messages);
+  if (influences.length > 0) {
+    setInfluences(prev => [...prev, ...influences.filter(influence => !prev.some(i => i.id === influence.id))]);
+  }
+  setCategories(prev => (prev.some(c => c.id === category.id) ? prev : insertAt(prev, index, category)));
+}
+
+export function addCategoryCommand(category: Goal, index: number): Command {
+  let snapshot: CategorySnapshot | null = null;
+  return {
+    label: `Added "${category.title}"`,
+    apply: () => {
+      if (snapshot) {
+        restoreCategory(snapshot);
+        return;
+      }
+      createCategoryGoals(category.id);
+      setCategories(prev => insertAt(prev, index, category));
+    },
+    revert: () => {
+      snapshot = removeCategory(category.id);
+    },
+  };
+}
+
+export function updateCategoryCommand(id: string, patch: Partial<Omit<Goal, 'id'>>, label = 'Edited category'): Command {
+  let previous: Partial<Goal> = {};
+  return {
+    label,
+    apply: () => setCategories(prev => prev.map(category => {
+      if (category.id !== id) return category;
+      previous = Object.fromEntries(Object.keys(patch).map(key => [key, category[key as keyof Goal]]));
+      return { ...category, ...patch };
+    })),
+    revert: () => setCategories(prev => prev.map(category => (category.id === id ? { ...category, ...previous } : category))),
+  };
+}
+
+export function deleteCategoryCommand(category: Goal): Command {
+  let snapshot: CategorySnapshot | null = null;
+  return {
+    label: `Deleted "${category.title}"`,
+    apply: () => {
+      snapshot = removeCategory(category.id);
+    },
+    revert: () => {
+      if (snapshot) restoreCategory(snapshot);
+    },
+  };
+}
+
+export function reorderCategoriesCommand(orderedIds: string[], label = 'Reordered categories'): Command {
+  let previous: string[] = [];
+  return {
+    label,
+    apply: () => {
+      previous = getCategories().map(category => category.id);
+      setCategories(prev => sortByIds(prev, orderedIds));
+    },
+    revert: () => setCategories(prev => sortByIds(prev, previous)),
+  };
+}
+
+export function addInfluenceCommand(influence: Influence, label = 'Connected categories'): Command {
+  return {
+    label,
+    apply: () => setInfluences(prev => (prev.some(i => i.id === influence.id) ? prev : [...prev, influence])),
+    revert: () => setInfluences(prev => prev.filter(i => i.id !== influence.id)),
+  };
+}
+
+export function removeInfluenceCommand(id: string, label = 'Disconnected categories'): Command {
+  let removed: { influence: Influence; index: number } | null = null;
+  return {
+    label,
+    apply: () => setInfluences(prev => {
+      const index = prev.findIndex(influence => influence.id === id);
+      if (index === -1) return prev;
+      removed = { influence: prev[index], index };
+      return prev.filter(influence => influence.id !== id);
+    }),
+    revert: () => {
+      const restore = removed;
+      if (!restore) return;
+      setInfluences(prev => insertAt(prev, restore.index, restore.influence));
+    },
+  };
+}
+
+export function setInfluenceWeightCommand(id: string, weight: InfluenceWeight | undefined): Command {
+  let previous: InfluenceWeight | undefined;
+  return {
+    label: 'Changed connection strength',
+    apply: () => setInfluences(prev => prev.map(influence => {
+      if (influence.id !== id) return influence;
+      previous = influence.weight;
+      return { ...influence, weight };
+    })),
+    revert: () => setInfluences(prev => prev.map(influence => (influence.id === id ? { ...influence, weight: previous } : influence))),
+  };
+}
+
+export function pinNodeCommand(nodeId: string, position: XYPosition): Command {
+  let previous: XYPosition | undefined;
+  return {
+    label: 'Moved card',
+    apply: () => setPinnedPositions(prev => {
+      previous = prev[nodeId];
+      return { ...prev, [nodeId]: position };
+    }),
+    revert: () => setPinnedPositions(prev => {
+      const next = { ...prev };
+      if (previous) next[nodeId] = previous;
+      else delete next[nodeId];
+      return next;
+    }),
+  };
+}
+
+// Forgets dragged positions, every card's or just the given ones', so those
+// cards are laid out afresh
+export function relayoutCommand(nodeIds?: string[]): Command {
+  let previous: PinnedPositions = {};
+  return {
+    label: 'Tidied the Lab',
+    apply: () => {
+      previous = getPinnedPositions();
+      setPinnedPositions(nodeIds
+        ? Object.fromEntries(Object.entries(previous).filter(([id]) => !nodeIds.includes(id)))
+        : {});
+    },
+    revert: () => setPinnedPositions(previous),
+  };
+}
@@ -0,0 +1,48 @@
+import dagre from 'dagre';
+import { Edge, Node, XYPosition } from 'reactflow';
+
+// Rendered sizes of the Lab's node types. Cards truncate long titles, so
+// their size doesn't depend on what's in them.
+const NODE_SIZES: Record<string, { width: number; height: number }> = {
+  goalCard: { width: 224, height: 76 },
+  addButton: { width: 224, height: 36 },
+  centralHub: { width: 80, height: 64 },
+};
+
+const DEFAULT_SIZE = NODE_SIZES.goalCard;
+
+// Every edge in the Lab points upwards, from what fuels to what is fuelled:
+// inputs into the hub, the hub into outputs, inputs into the outputs they
+// influence. Ranking each edge's target above its source therefore puts
+// outputs on top, the hub in the middle and inputs at the bottom.
+export function layoutLab(nodes: Node[], edges: Edge[], pinned: Record<string, XYPosition> = {}): Node[] {
+  const graph = new dagre.graphlib.Graph();
+  graph.setGraph({ rankdir: 'TB', nodesep: 24, ranksep: 72, marginx: 20, marginy: 20 });
+  graph.setDefaultEdgeLabel(() => ({}));
+
+  nodes.forEach(node => graph.setNode(node.id, { ...(NODE_SIZES[node.type ?? ''] ?? DEFAULT_SIZE) }));
+  edges.forEach(edge => {
+    if (graph.hasNode(edge.source) && graph.hasNode(edge.target)) graph.setEdge(edge.target, edge.source);
+  });
+  dagre.layout(graph);
+
+  // dagre is free to shuffle nodes within a row to avoid crossings, but the
+  // Lab keeps the user's order: hand each row's slots out in list order.
+  const rows = new Map<number, Node[]>();
+  nodes.forEach(node => {
+    const { y } = graph.node(node.id);
+    rows.set(y, [...(rows.get(y) ?? []), node]);
+  });
+  const centers = new Map<string, XYPosition>();
+  rows.forEach((row, y) => {
+    const slots = row.map(node => graph.node(node.id).x).sort((a, b) => a - b);
+    row.forEach((node, i) => centers.set(node.id, { x: slots[i], y }));
+  });
+
+  return nodes.map(node => {
+    if (pinned[node.id]) return { ...node, position: pinned[node.id] };
+    const { width, height } = graph.node(node.id);
+    const center = centers.get(node.id)!;
+    return { ...node, position: { x: center.x - width / 2, y: center.y - height / 2 } };
+  });
+}
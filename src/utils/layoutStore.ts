@@ -0,0 +1,37 @@
+import { XYPosition } from 'reactflow';
+import { onStorageScopeChange, readJSON, writeJSON } from './storage';
+
+// Where the user has dragged Lab nodes, keyed by node id. Pinned nodes stay
+// put; everything else is placed by the automatic layout.
+export const LAB_LAYOUT_STORAGE_KEY = 'dejavu-lab-layout';
+
+export type PinnedPositions = Record<string, XYPosition>;
+
+type Listener = () => void;
+
+let pinned: PinnedPositions = readJSON<PinnedPositions>(LAB_LAYOUT_STORAGE_KEY, {});
+const listeners = new Set<Listener>();
+
+onStorageScopeChange(() => {
+  pinned = readJSON<PinnedPositions>(LAB_LAYOUT_STORAGE_KEY, {});
+  listeners.forEach(listener => listener());
+});
+
+export function subscribeToPinnedPositions(listener: Listener) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getPinnedPositions(): PinnedPositions {
+  return pinned;
+}
+
+export function setPinnedPositions(update: PinnedPositions | ((prev: PinnedPositions) => PinnedPositions)) {
+  const next = typeof update === 'function' ? update(pinned) : update;
+  if (next === pinned) return;
+  pinned = next;
+  writeJSON(LAB_LAYOUT_STORAGE_KEY, pinned);
+  listeners.forEach(listener => listener());
+}
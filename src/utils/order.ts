@@ -0,0 +1,29 @@
+// Lists the user can rearrange carry an explicit `order`. The stores keep it
+// equal to each item's position, so a list can always be put back in order
+// however it was saved (an older build, a merged backup).
+
+export interface Ordered {
+  order?: number;
+}
+
+// Items without an order keep their place relative to the rest
+export function sortByOrder<T extends Ordered>(list: T[]): T[] {
+  return list
+    .map((item, index) => ({ item, rank: item.order ?? index, index }))
+    .sort((a, b) => a.rank - b.rank || a.index - b.index)
+    .map(({ item }) => item);
+}
+
+// Stamps each item with its position, keeping the same array when nothing
+// changes so subscribers don't re-render for nothing
+export function renumber<T extends Ordered>(list: T[]): T[] {
+  if (list.every((item, index) => item.order === index)) return list;
+  return list.map((item, index) => (item.order === index ? item : { ...item, order: index }));
+}
+
+export function moveItem<T>(list: T[], from: number, to: number): T[] {
+  const next = [...list];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+}
@@ -0,0 +1,54 @@
+import { FuturePersona } from '../types/Persona';
+import { onStorageScopeChange, readJSON, writeJSON } from './storage';
+
+export const PERSONA_STORAGE_KEY = 'dejavu-persona';
+
+type Listener = () => void;
+
+let persona: FuturePersona | null = readJSON<FuturePersona | null>(PERSONA_STORAGE_KEY, null);
+const listeners = new Set<Listener>();
+
+onStorageScopeChange(() => {
+  persona = readJSON<FuturePersona | null>(PERSONA_STORAGE_KEY, null);
+  listeners.forEach(listener => listener());
+});
+
+export function subscribeToPersona(listener: Listener) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// null until the user has been through persona onboarding
+export function getPersona(): FuturePersona | null {
+  return persona;
+}
+
+export function savePersona(update: Omit<FuturePersona, 'revision' | 'updatedAt'>) {
+  persona = {
+    ...update,
+    revision: (persona?.revision ?? 0) + 1,
+    updatedAt: new Date().toISOString(),
+  };
+  writeJSON(PERSONA_STORAGE_KEY, persona);
+  listeners.forEach(listener => listener());
+}
+
+// Restores a persona exactly as it was saved, revision included
+export function replacePersona(next: FuturePersona | null) {
+  persona = next;
+  writeJSON(PERSONA_STORAGE_KEY, persona);
+  listeners.forEach(listener => listener());
+}
+
+export const PERSONA_SKIPPED_STORAGE_KEY = 'dejavu-persona-skipped';
+
+// Users can skip onboarding and fill the persona in later from Settings
+export function hasSkippedPersonaOnboarding() {
+  return readJSON(PERSONA_SKIPPED_STORAGE_KEY, false);
+}
+
+export function skipPersonaOnboarding() {
+  writeJSON(PERSONA_SKIPPED_STORAGE_KEY, true);
+}
@@ -0,0 +1,23 @@
+// Proof Key for Code Exchange (RFC 7636) helpers for the OAuth sign-in flow.
+
+function base64Url(bytes: Uint8Array) {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function randomToken(byteLength = 32) {
+  return base64Url(crypto.getRandomValues(new Uint8Array(byteLength)));
+}
+
+// 43-128 characters from the unreserved set, as the spec requires
+export function createCodeVerifier() {
+  return randomToken(64);
+}
+
+export async function createCodeChallenge(verifier: string) {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+  return base64Url(new Uint8Array(digest));
+}
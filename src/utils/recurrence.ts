@@ -0,0 +1,259 @@
+import { IndividualGoal, Recurrence } from '../types/Goal';
+
+// Pure scheduling for recurring (habit) goals. Everything works on local
+// calendar days: a habit done at 11pm counts for that day wherever the user
+// is. Weeks start on Monday.
+
+export class RecurrenceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecurrenceError';
+  }
+}
+
+export type PeriodStatus = 'done' | 'missed' | 'open' | 'rest';
+
+export interface HabitPeriod {
+  start: Date;
+  // Exclusive
+  end: Date;
+  target: number;
+  done: number;
+  status: PeriodStatus;
+}
+
+interface ParsedRule {
+  freq: 'DAILY' | 'WEEKLY';
+  interval: number;
+  // 0 = Sunday, as Date#getDay counts
+  byDay: number[] | null;
+  until: string | null;
+}
+
+const RRULE_DAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const HISTORY_DAYS = 14;
+export const HISTORY_WEEKS = 8;
+
+export function dateKey(date: Date) {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function parseDateKey(key: string) {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+export function startOfDay(date: Date) {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+export function addDays(date: Date, days: number) {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+function startOfWeek(date: Date) {
+  return addDays(startOfDay(date), -((date.getDay() + 6) % 7));
+}
+
+// Rounded so daylight-saving days of 23 or 25 hours still count as one
+export function daysBetween(from: Date, to: Date) {
+  return Math.round((startOfDay(to).getTime() - startOfDay(from).getTime()) / DAY_MS);
+}
+
+export function parseRRule(rule: string): ParsedRule {
+  const parsed: ParsedRule = { freq: 'DAILY', interval: 1, byDay: null, until: null };
+  let hasFreq = false;
+  const body = rule.trim().replace(/^RRULE:/i, '');
+  if (!body) throw new RecurrenceError('Enter a rule, such as FREQ=WEEKLY;BYDAY=MO,WE,FR.');
+
+  for (const part of body.split(';').filter(Boolean)) {
+    const [name, value = ''] = part.split('=').map(s => s.trim().toUpperCase());
+    switch (name) {
+      case 'FREQ':
+        if (value !== 'DAILY' && value !== 'WEEKLY') throw new RecurrenceError('Only daily and weekly rules are supported.');
+        parsed.freq = value;
+        hasFreq = true;
+        break;
+      case 'INTERVAL':
+        parsed.interval = Number(value);
+        if (!Number.isInteger(parsed.interval) || parsed.interval < 1) throw new RecurrenceError('INTERVAL must be a whole number of 1 or more.');
+        break;
+      case 'BYDAY':
+        parsed.byDay = value.split(',').map(day => {
+          const index = RRULE_DAYS.indexOf(day);
+          if (index === -1) throw new RecurrenceError(`"${day}" is not a day; use MO, TU, WE, TH, FR, SA or SU.`);
+          return index;
+        });
+        break;
+      case 'UNTIL':
+        if (!/^\d{8}/.test(value)) throw new RecurrenceError('UNTIL must be a date such as 20261231.');
+        parsed.until = `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}`;
+        break;
+      case 'WKST':
+        break;
+      default:
+        throw new RecurrenceError(`${name} is not supported in repeat rules.`);
+    }
+  }
+  if (!hasFreq) throw new RecurrenceError('The rule needs a FREQ, such as FREQ=DAILY.');
+  return parsed;
+}
+
+// Whether the habit is meant to be done on this day. Goals done "N times a
+// week" may be done on any day.
+export function isOccurrenceDay(recurrence: Recurrence, date: Date) {
+  const start = parseDateKey(recurrence.start);
+  if (daysBetween(start, date) < 0) return false;
+
+  switch (recurrence.kind) {
+    case 'daily':
+    case 'weekly':
+      return true;
+    case 'weekdays':
+      return date.getDay() >= 1 && date.getDay() <= 5;
+    case 'rrule': {
+      let rule: ParsedRule;
+      try {
+        rule = parseRRule(recurrence.rule);
+      } catch {
+        return false;
+      }
+      if (rule.until && dateKey(date) > rule.until) return false;
+      if (rule.freq === 'DAILY') {
+        return daysBetween(start, date) % rule.interval === 0 && (!rule.byDay || rule.byDay.includes(date.getDay()));
+      }
+      const weeks = daysBetween(startOfWeek(start), startOfWeek(date)) / 7;
+      return weeks % rule.interval === 0 && (rule.byDay ?? [start.getDay()]).includes(date.getDay());
+    }
+  }
+}
+
+function countDone(goal: IndividualGoal, start: Date, end: Date) {
+  const from = dateKey(start);
+  const to = dateKey(end);
+  return (goal.completions ?? []).filter(key => key >= from && key < to).length;
+}
+
+// The day, or for "N times a week" the week, that `date` falls in
+export function habitPeriod(goal: IndividualGoal, date: Date, now = new Date()): HabitPeriod | null {
+  const recurrence = goal.recurrence;
+  if (!recurrence) return null;
+
+  const weekly = recurrence.kind === 'weekly';
+  const start = weekly ? startOfWeek(date) : startOfDay(date);
+  const end = addDays(start, weekly ? 7 : 1);
+  const target = recurrence.kind === 'weekly' ? Math.min(Math.max(recurrence.timesPerWeek, 1), 7) : 1;
+  const done = countDone(goal, start, end);
+
+  const due = weekly
+    ? daysBetween(parseDateKey(recurrence.start), addDays(end, -1)) >= 0
+    : isOccurrenceDay(recurrence, start);
+  let status: PeriodStatus;
+  if (done >= target) status = 'done';
+  else if (!due) status = 'rest';
+  else if (end.getTime() > now.getTime()) status = 'open';
+  else status = 'missed';
+
+  return { start, end, target, done, status };
+}
+
+// The last few periods up to and including the current one, oldest first,
+// leaving out any from before the habit was set up
+export function habitHistory(goal: IndividualGoal, now = new Date()): HabitPeriod[] {
+  const recurrence = goal.recurrence;
+  if (!recurrence) return [];
+
+  const weekly = recurrence.kind === 'weekly';
+  const count = weekly ? HISTORY_WEEKS : HISTORY_DAYS;
+  const first = parseDateKey(recurrence.start);
+  const periods: HabitPeriod[] = [];
+  for (let i = count - 1; i >= 0; i--) {
+    const period = habitPeriod(goal, addDays(now, -i * (weekly ? 7 : 1)), now);
+    if (period && period.end.getTime() > first.getTime()) periods.push(period);
+  }
+  return periods;
+}
+
+// A habit counts as complete while nothing more is asked of it right now
+export function isGoalComplete(goal: IndividualGoal, now = new Date()) {
+  const period = habitPeriod(goal, now, now);
+  if (!period) return goal.completed;
+  return period.status === 'done' || period.status === 'rest';
+}
+
+export function toggleCompletion(goal: IndividualGoal, date = new Date()) {
+  const key = dateKey(date);
+  const completions = goal.completions ?? [];
+  return completions.includes(key)
+    ? completions.filter(k => k !== key)
+    : [...completions, key].sort();
+}
+
+export function describeRecurrence(recurrence: Recurrence) {
+  switch (recurrence.kind) {
+    case 'daily':
+      return 'Every day';
+    case 'weekdays':
+      return 'Every weekday';
+    case 'weekly':
+      return recurrence.timesPerWeek === 1
+        ? 'Once a week'
+        : recurrence.timesPerWeek === 2
+          ? 'Twice a week'
+          : `${recurrence.timesPerWeek} times a week`;
+    case 'rrule': {
+      let rule: ParsedRule;
+      try {
+        rule = parseRRule(recurrence.rule);
+      } catch {
+        return recurrence.rule;
+      }
+      const unit = rule.freq === 'DAILY' ? 'day' : 'week';
+      const every = rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`;
+      const days = rule.byDay ? ` on ${rule.byDay.map(day => DAY_NAMES[day]).join(', ')}` : '';
+      const until = rule.until ? ` until ${parseDateKey(rule.until).toLocaleDateString()}` : '';
+      return `${every}${days}${until}`;
+    }
+  }
+}
+
+// Form state for picking a recurrence; 'none' is a one-shot goal
+export interface RecurrenceDraft {
+  kind: 'none' | Recurrence['kind'];
+  timesPerWeek: number;
+  rule: string;
+}
+
+export function recurrenceDraft(recurrence?: Recurrence): RecurrenceDraft {
+  return {
+    kind: recurrence?.kind ?? 'none',
+    timesPerWeek: recurrence?.kind === 'weekly' ? recurrence.timesPerWeek : 3,
+    rule: recurrence?.kind === 'rrule' ? recurrence.rule : '',
+  };
+}
+
+// Throws a RecurrenceError for a custom rule that can't be followed. An
+// existing recurrence keeps its start date so its history survives edits.
+export function draftToRecurrence(draft: RecurrenceDraft, existing?: Recurrence, now = new Date()): Recurrence | undefined {
+  const start = existing?.start ?? dateKey(now);
+  switch (draft.kind) {
+    case 'none':
+      return undefined;
+    case 'daily':
+    case 'weekdays':
+      return { kind: draft.kind, start };
+    case 'weekly':
+      if (!Number.isInteger(draft.timesPerWeek) || draft.timesPerWeek < 1 || draft.timesPerWeek > 7) {
+        throw new RecurrenceError('Pick between 1 and 7 times a week.');
+      }
+      return { kind: 'weekly', timesPerWeek: draft.timesPerWeek, start };
+    case 'rrule':
+      parseRRule(draft.rule);
+      return { kind: 'rrule', rule: draft.rule.trim().replace(/^RRULE:/i, '').toUpperCase(), start };
+  }
+}
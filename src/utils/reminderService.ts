@@ -0,0 +1,113 @@
+import { getAllIndividualGoals, subscribeToIndividualGoals } from './goalStore';
+import { getCategories, subscribeToCategories } from './categoryStore';
+import { getSettings, subscribeToSettings } from './settingsStore';
+import { onStorageScopeChange, readJSON, writeJSON } from './storage';
+import {
+  computeReminders,
+  EMPTY_REMINDER_STATE,
+  markReminderDelivered,
+  pruneReminderState,
+  Reminder,
+  ReminderState,
+  snoozeReminder,
+} from './reminders';
+
+export const REMINDER_STATE_STORAGE_KEY = 'dejavu-reminder-state';
+
+// setTimeout overflows past ~24.8 days; longer waits are re-armed on wake-up
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+export interface ReminderActions {
+  snooze: () => void;
+  open: () => void;
+}
+
+// Platform side of reminders: how a due reminder is shown to the user
+export interface ReminderNotifier {
+  notify(reminder: Reminder, actions: ReminderActions): void;
+}
+
+interface ReminderServiceOptions {
+  notifier: ReminderNotifier;
+  onOpen?: (reminder: Reminder) => void;
+}
+
+let state: ReminderState = readJSON(REMINDER_STATE_STORAGE_KEY, EMPTY_REMINDER_STATE);
+let options: ReminderServiceOptions | null = null;
+let timer: ReturnType<typeof setTimeout> | null = null;
+
+onStorageScopeChange(() => {
+  state = readJSON(REMINDER_STATE_STORAGE_KEY, EMPTY_REMINDER_STATE);
+});
+
+function commitState(next: ReminderState) {
+  state = next;
+  writeJSON(REMINDER_STATE_STORAGE_KEY, state);
+}
+
+// Archived categories are on hold, so their deadlines stay quiet
+function allGoals() {
+  const archived = new Set(getCategories().filter(category => category.archived).map(category => category.id));
+  return Object.entries(getAllIndividualGoals())
+    .filter(([categoryId]) => !archived.has(categoryId))
+    .flatMap(([, goals]) => goals);
+}
+
+export function getUpcomingReminders(now = Date.now()): Reminder[] {
+  return computeReminders(allGoals(), getSettings().reminderLeadMinutes, state, now);
+}
+
+function deliver(reminder: Reminder) {
+  commitState(markReminderDelivered(state, reminder.key, Date.now()));
+  options?.notifier.notify(reminder, {
+    snooze: () => {
+      commitState(snoozeReminder(state, reminder.key, Date.now()));
+      reschedule();
+    },
+    open: () => options?.onOpen?.(reminder),
+  });
+}
+
+// Fires whatever is due and arms a single timer for the next reminder.
+function reschedule() {
+  if (timer !== null) {
+    clearTimeout(timer);
+    timer = null;
+  }
+  if (!options || !getSettings().notificationsEnabled) return;
+
+  const goals = allGoals();
+  const pruned = pruneReminderState(state, goals);
+  if (Object.keys(pruned.delivered).length !== Object.keys(state.delivered).length
+    || Object.keys(pruned.snoozedUntil).length !== Object.keys(state.snoozedUntil).length) {
+    commitState(pruned);
+  }
+
+  const now = Date.now();
+  const reminders = computeReminders(goals, getSettings().reminderLeadMinutes, state, now);
+  const due = reminders.filter(reminder => reminder.fireAt.getTime() <= now);
+  due.forEach(deliver);
+
+  const next = reminders.find(reminder => reminder.fireAt.getTime() > now);
+  if (next) {
+    timer = setTimeout(reschedule, Math.min(next.fireAt.getTime() - now, MAX_TIMER_MS));
+  }
+}
+
+// Starts watching goal deadlines and reminder settings; returns a function
+// that stops it again.
+export function startReminderService(serviceOptions: ReminderServiceOptions) {
+  options = serviceOptions;
+  const unsubscribeGoals = subscribeToIndividualGoals(reschedule);
+  const unsubscribeCategories = subscribeToCategories(reschedule);
+  const unsubscribeSettings = subscribeToSettings(reschedule);
+  reschedule();
+
+  return () => {
+    unsubscribeGoals();
+    unsubscribeCategories();
+    unsubscribeSettings();
+    options = null;
+    reschedule();
+  };
+}
@@ -0,0 +1,96 @@
+import { IndividualGoal } from '../types/Goal';
+
+// Pure deadline-reminder planning, shared by the web service and the Expo
+// adapter. Delivered/snoozed bookkeeping is keyed by goal *and* deadline so
+// that moving a deadline schedules a fresh reminder.
+
+export const DEFAULT_REMINDER_LEAD_MINUTES = 15;
+export const SNOOZE_MINUTES = 10;
+
+const MINUTE_MS = 60 * 1000;
+
+export interface Reminder {
+  key: string;
+  goalId: string;
+  categoryId: string;
+  title: string;
+  deadline: Date;
+  fireAt: Date;
+}
+
+export interface ReminderState {
+  // reminder key -> epoch ms it was shown
+  delivered: Record<string, number>;
+  // reminder key -> epoch ms it should be shown again
+  snoozedUntil: Record<string, number>;
+}
+
+export const EMPTY_REMINDER_STATE: ReminderState = { delivered: {}, snoozedUntil: {} };
+
+export function reminderKey(goalId: string, deadline: Date) {
+  return `${goalId}@${deadline.getTime()}`;
+}
+
+// Upcoming reminders for every open goal with a future deadline, soonest first.
+// A reminder whose lead time has already passed fires right away.
+export function computeReminders(
+  goals: IndividualGoal[],
+  leadMinutes: number,
+  state: ReminderState,
+  now: number
+): Reminder[] {
+  const reminders: Reminder[] = [];
+
+  for (const goal of goals) {
+    if (goal.completed || !goal.deadline) continue;
+    const deadline = goal.deadline.getTime();
+    if (deadline <= now) continue;
+
+    const key = reminderKey(goal.id, goal.deadline);
+    const delivered = state.delivered[key];
+    const snoozedUntil = state.snoozedUntil[key];
+    const isSnoozed = snoozedUntil !== undefined && (delivered === undefined || snoozedUntil > delivered);
+    if (delivered !== undefined && !isSnoozed) continue;
+
+    const planned = isSnoozed ? Math.min(snoozedUntil, deadline) : deadline - leadMinutes * MINUTE_MS;
+    reminders.push({
+      key,
+      goalId: goal.id,
+      categoryId: goal.categoryId,
+      title: goal.title,
+      deadline: goal.deadline,
+      fireAt: new Date(Math.max(planned, now)),
+    });
+  }
+
+  return reminders.sort((a, b) => a.fireAt.getTime() - b.fireAt.getTime());
+}
+
+// Forgets bookkeeping for goals that were deleted, completed or re-dated.
+export function pruneReminderState(state: ReminderState, goals: IndividualGoal[]): ReminderState {
+  const live = new Set(
+    goals
+      .filter(goal => !goal.completed && goal.deadline)
+      .map(goal => reminderKey(goal.id, goal.deadline as Date))
+  );
+  const keep = (record: Record<string, number>) =>
+    Object.fromEntries(Object.entries(record).filter(([key]) => live.has(key)));
+
+  return { delivered: keep(state.delivered), snoozedUntil: keep(state.snoozedUntil) };
+}
+
+export function markReminderDelivered(state: ReminderState, key: string, now: number): ReminderState {
+  return { ...state, delivered: { ...state.delivered, [key]: now } };
+}
+
+export function snoozeReminder(state: ReminderState, key: string, now: number, minutes = SNOOZE_MINUTES): ReminderState {
+  return { ...state, snoozedUntil: { ...state.snoozedUntil, [key]: now + minutes * MINUTE_MS } };
+}
+
+export function formatTimeUntil(deadline: Date, now: number) {
+  const minutes = Math.max(0, Math.round((deadline.getTime() - now) / MINUTE_MS));
+  if (minutes < 1) return 'now';
+  if (minutes < 60) return `in ${minutes} minute${minutes === 1 ? '' : 's'}`;
+  const hours = Math.round(minutes / 60);
+  return `in ${hours} hour${hours === 1 ? '' : 's'}`;
+}
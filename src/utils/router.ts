@@ -0,0 +1,87 @@
+// Minimal History API router: every screen has a URL so back/forward, refresh
+// and shared links land where the user left off.
+
+export type Route =
+  | { name: 'chat' }
+  | { name: 'categoryChat'; categoryId: string }
+  | { name: 'lab' }
+  | { name: 'goal'; categoryId: string }
+  | { name: 'settings' }
+  | { name: 'persona' };
+
+type Listener = () => void;
+
+export function parseRoute(pathname: string): Route {
+  let parts: string[];
+  try {
+    parts = pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  } catch (error) {
+    // A malformed escape such as /%E0 opens the default screen
+    if (!(error instanceof URIError)) throw error;
+    return { name: 'chat' };
+  }
+
+  switch (parts[0]) {
+    case 'lab':
+      if (parts[1] === 'goal' && parts[2]) return { name: 'goal', categoryId: parts[2] };
+      return { name: 'lab' };
+    case 'chat':
+      if (parts[1] === 'category' && parts[2]) return { name: 'categoryChat', categoryId: parts[2] };
+      return { name: 'chat' };
+    case 'settings':
+      return parts[1] === 'persona' ? { name: 'persona' } : { name: 'settings' };
+    default:
+      return { name: 'chat' };
+  }
+}
+
+export function routePath(route: Route): string {
+  switch (route.name) {
+    case 'chat':
+      return '/chat';
+    case 'categoryChat':
+      return `/chat/category/${encodeURIComponent(route.categoryId)}`;
+    case 'lab':
+      return '/lab';
+    case 'goal':
+      return `/lab/goal/${encodeURIComponent(route.categoryId)}`;
+    case 'settings':
+      return '/settings';
+    case 'persona':
+      return '/settings/persona';
+  }
+}
+
+const listeners = new Set<Listener>();
+let current = { pathname: window.location.pathname, route: parseRoute(window.location.pathname) };
+
+// Picks up history changes made outside navigate(), e.g. the OAuth callback
+export function syncRoute() {
+  if (window.location.pathname === current.pathname) return;
+  current = { pathname: window.location.pathname, route: parseRoute(window.location.pathname) };
+  listeners.forEach(listener => listener());
+}
+
+window.addEventListener('popstate', syncRoute);
+
+export function subscribeToRoute(listener: Listener) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getRoute(): Route {
+  return current.route;
+}
+
+export function navigate(route: Route, { replace = false }: { replace?: boolean } = {}) {
+  const path = routePath(route);
+  if (path === window.location.pathname) return;
+  if (replace) {
+    window.history.replaceState(null, '', path);
+  } else {
+    window.history.pushState(null, '', path);
+  }
+  syncRoute();
+}
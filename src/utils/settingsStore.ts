@@ -0,0 +1,99 @@
+import { AppSettings } from '../types/Settings';
+import { DEFAULT_REMINDER_LEAD_MINUTES } from './reminders';
+import { onStorageScopeChange, readJSON, writeJSON } from './storage';
+
+export const SETTINGS_STORAGE_KEY = 'dejavu-settings';
+export const SETTINGS_VERSION = 1;
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  notificationsEnabled: true,
+  checkInIntervalHours: 1,
+  reminderLeadMinutes: DEFAULT_REMINDER_LEAD_MINUTES,
+  sound: true,
+  vibration: false,
+  emailSync: false,
+  calendarSync: true,
+  darkMode: false,
+};
+
+// Slider bounds, shared with SettingsScreen
+export const CHECK_IN_INTERVAL_RANGE = { min: 1, max: 24, step: 1 };
+export const REMINDER_LEAD_RANGE = { min: 5, max: 60, step: 5 };
+
+interface StoredSettings {
+  version: number;
+  settings: Record<string, unknown>;
+}
+
+type Listener = () => void;
+
+// Each entry upgrades raw settings from version `index` to `index + 1`.
+const MIGRATIONS: Array<(settings: Record<string, unknown>) => Record<string, unknown>> = [
+  // 0 -> 1: bare settings objects only gained the version envelope
+  settings => settings,
+];
+
+function readBoolean(value: unknown, fallback: boolean) {
+  return typeof value === 'boolean' ? value : fallback;
+}
+
+function readStep(value: unknown, range: { min: number; max: number; step: number }, fallback: number) {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return fallback;
+  const clamped = Math.min(range.max, Math.max(range.min, value));
+  return range.min + Math.round((clamped - range.min) / range.step) * range.step;
+}
+
+// Keeps every known field that has the right shape and falls back to the
+// default for the rest, so one bad value never resets everything.
+export function validateSettings(raw: Record<string, unknown>): AppSettings {
+  return {
+    notificationsEnabled: readBoolean(raw.notificationsEnabled, DEFAULT_SETTINGS.notificationsEnabled),
+    checkInIntervalHours: readStep(raw.checkInIntervalHours, CHECK_IN_INTERVAL_RANGE, DEFAULT_SETTINGS.checkInIntervalHours),
+    reminderLeadMinutes: readStep(raw.reminderLeadMinutes, REMINDER_LEAD_RANGE, DEFAULT_SETTINGS.reminderLeadMinutes),
+    sound: readBoolean(raw.sound, DEFAULT_SETTINGS.sound),
+    vibration: readBoolean(raw.vibration, DEFAULT_SETTINGS.vibration),
+    emailSync: readBoolean(raw.emailSync, DEFAULT_SETTINGS.emailSync),
+    calendarSync: readBoolean(raw.calendarSync, DEFAULT_SETTINGS.calendarSync),
+    darkMode: readBoolean(raw.darkMode, DEFAULT_SETTINGS.darkMode),
+  };
+}
+
+export function migrateSettings(stored: unknown): AppSettings {
+  if (typeof stored !== 'object' || stored === null) return DEFAULT_SETTINGS;
+
+  // Unversioned saves are a bare settings object
+  const isVersioned = 'version' in stored && 'settings' in stored;
+  let version = isVersioned ? Number((stored as StoredSettings).version) || 0 : 0;
+  let raw = (isVersioned ? (stored as StoredSettings).settings : stored) as Record<string, unknown>;
+
+  while (version < SETTINGS_VERSION) {
+    raw = MIGRATIONS[version](raw);
+    version++;
+  }
+  return validateSettings(raw);
+}
+
+let settings = migrateSettings(readJSON<unknown>(SETTINGS_STORAGE_KEY, null));
+const listeners = new Set<Listener>();
+
+onStorageScopeChange(() => {
+  settings = migrateSettings(readJSON<unknown>(SETTINGS_STORAGE_KEY, null));
+  listeners.forEach(listener => listener());
+});
+
+export function subscribeToSettings(listener: Listener) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getSettings(): AppSettings {
+  return settings;
+}
+
+export function updateSettings(patch: Partial<AppSettings>) {
+  settings = validateSettings({ ...settings, ...patch });
+  writeJSON(SETTINGS_STORAGE_KEY, { version: SETTINGS_VERSION, settings });
+  listeners.forEach(listener => listener());
+}
@@ -0,0 +1,48 @@
+export interface ServerSentEvent {
+  event?: string;
+  data: string;
+}
+
+// Parses a text/event-stream body into events as chunks arrive. Only the
+// `event` and `data` fields are needed by the AI providers.
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let event: string | undefined;
+  let data: string[] = [];
+  let finished = false;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      const lines = buffer.split(/\r?\n/);
+      buffer = done ? '' : lines.pop() ?? '';
+
+      for (const line of lines) {
+        if (line === '') {
+          if (data.length > 0) yield { event, data: data.join('\n') };
+          event = undefined;
+          data = [];
+        } else if (line.startsWith('event:')) {
+          event = line.slice(6).trim();
+        } else if (line.startsWith('data:')) {
+          data.push(line.slice(5).replace(/^ /, ''));
+        }
+      }
+
+      if (done) {
+        finished = true;
+        if (data.length > 0) yield { event, data: data.join('\n') };
+        return;
+      }
+    }
+  } finally {
+    // Stopping early (e.g. on [DONE]) closes the connection rather than
+    // leaving the rest of the body unread
+    if (!finished) await reader.cancel().catch(() => undefined);
+    reader.releaseLock();
+  }
+}
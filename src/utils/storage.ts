@@ -0,0 +1,142 @@
+// Thin JSON wrapper around localStorage shared by the persisted stores.
+//
+// Keys are namespaced by the signed-in user so that several accounts on one
+// browser never see each other's goals, chats or persona.
+
+import { migrateStorage, quarantine, StorageAdapter } from './storageSchema';
+import { STORAGE_MIGRATIONS } from './storageMigrations';
+
+type Listener = () => void;
+
+let scope: string | null = null;
+const scopeListeners = new Set<Listener>();
+
+export function scopedKey(key: string) {
+  return scope ? `${key}::${scope}` : key;
+}
+
+export function getStorageScope() {
+  return scope;
+}
+
+// Stores reload their module-level state when the user changes.
+export function onStorageScopeChange(listener: Listener) {
+  scopeListeners.add(listener);
+  return () => {
+    scopeListeners.delete(listener);
+  };
+}
+
+const localStorageAdapter: StorageAdapter = {
+  getItem: key => localStorage.getItem(key),
+  setItem: (key, value) => localStorage.setItem(key, value),
+  removeItem: key => localStorage.removeItem(key),
+  keys: () => Object.keys(localStorage),
+};
+
+// The current user's keys, by their unscoped names
+const scopedAdapter: StorageAdapter = {
+  getItem: key => localStorage.getItem(scopedKey(key)),
+  setItem: (key, value) => localStorage.setItem(scopedKey(key), value),
+  removeItem: key => localStorage.removeItem(scopedKey(key)),
+  keys: () => {
+    const suffix = scope ? `::${scope}` : '';
+    return Object.keys(localStorage)
+      .filter(key => (scope ? key.endsWith(suffix) : !key.includes('::')))
+      .map(key => key.slice(0, key.length - suffix.length));
+  },
+};
+
+function migrateScope() {
+  try {
+    migrateStorage(scopedAdapter, STORAGE_MIGRATIONS);
+  } catch (e) {
+    console.error('Failed to migrate saved data:', e);
+  }
+}
+
+// Stores read their initial state as soon as they load
+migrateScope();
+
+interface AdoptOptions {
+  prefix: string;
+  exclude?: string[];
+}
+
+// Data saved before sign-in existed belongs to whoever signs in first, so it
+// is adopted before any store reloads for the new user.
+export function setStorageScope(next: string | null, adopt?: AdoptOptions) {
+  if (next === scope) return;
+  scope = next;
+  if (adopt) adoptUnscopedData(adopt.prefix, adopt.exclude);
+  migrateScope();
+  scopeListeners.forEach(listener => listener());
+}
+
+function adoptUnscopedData(prefix: string, exclude: string[] = []) {
+  if (!scope) return;
+  for (const key of Object.keys(localStorage)) {
+    if (!key.startsWith(prefix) || key.includes('::') || exclude.includes(key)) continue;
+    const target = scopedKey(key);
+    if (localStorage.getItem(target) === null) {
+      localStorage.setItem(target, localStorage.getItem(key) as string);
+    }
+    localStorage.removeItem(key);
+  }
+}
+
+function parse<T>(
+  adapter: StorageAdapter,
+  key: string,
+  fallback: T,
+  reviver?: (key: string, value: unknown) => unknown
+): T {
+  const saved = adapter.getItem(key);
+  if (saved === null) return fallback;
+
+  try {
+    return JSON.parse(saved, reviver) as T;
+  } catch (e) {
+    console.error(`Failed to parse saved "${key}":`, e);
+    quarantine(adapter, key, saved);
+    return fallback;
+  }
+}
+
+function write(key: string, value: unknown) {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (e) {
+    console.error(`Failed to save "${key}":`, e);
+  }
+}
+
+export function readJSON<T>(key: string, fallback: T, reviver?: (key: string, value: unknown) => unknown): T {
+  return parse(scopedAdapter, key, fallback, reviver);
+}
+
+export function writeJSON(key: string, value: unknown) {
+  write(scopedKey(key), value);
+}
+
+export function removeJSON(key: string) {
+  localStorage.removeItem(scopedKey(key));
+}
+
+// Unscoped names of the current user's keys that start with `prefix`
+export function listKeys(prefix: string): string[] {
+  return scopedAdapter.keys().filter(key => key.startsWith(prefix));
+}
+
+// Device-wide values that must not be namespaced, such as the session itself
+export function readGlobalJSON<T>(key: string, fallback: T): T {
+  return parse(localStorageAdapter, key, fallback);
+}
+
+export function writeGlobalJSON(key: string, value: unknown) {
+  write(key, value);
+}
+
+export function removeGlobalJSON(key: string) {
+  localStorage.removeItem(key);
+}
@@ -0,0 +1,61 @@
+import { StorageMigration } from './storageSchema';
+
+// Ordered upgrades for data saved by older builds. Steps name their keys
+// literally: a migration describes the data as it was, not as it is now.
+// Never edit a released step; add a new one with the next version.
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export const STORAGE_MIGRATIONS: StorageMigration[] = [
+  {
+    version: 1,
+    description: 'Give saved Lab categories goal counts and a type',
+    up: ({ read, write }) => {
+      const categories = read('dejavu-lab-goals');
+      if (!Array.isArray(categories)) return;
+      write('dejavu-lab-goals', categories.flatMap(category => {
+        if (!isObject(category) || typeof category.id !== 'string' || typeof category.title !== 'string') return [];
+        return [{
+          ...category,
+          // The real counts are recomputed from the goals on load
+          goalCount: typeof category.goalCount === 'number' ? category.goalCount : 0,
+          completedCount: typeof category.completedCount === 'number' ? category.completedCount : 0,
+          type: category.type === 'input' ? 'input' : 'output',
+        }];
+      }));
+    },
+  },
+  {
+    version: 2,
+    description: 'Tie every saved individual goal to the category it is filed under',
+    up: ({ read, write }) => {
+      const goalsByCategory = read('dejavu-individual-goals');
+      if (!isObject(goalsByCategory)) return;
+      const next: Record<string, unknown[]> = {};
+      Object.entries(goalsByCategory).forEach(([categoryId, goals]) => {
+        if (!Array.isArray(goals)) return;
+        next[categoryId] = goals.flatMap(goal => (
+          isObject(goal) && typeof goal.id === 'string' ? [{ ...goal, categoryId, completed: goal.completed === true }] : []
+        ));
+      });
+      write('dejavu-individual-goals', next);
+    },
+  },
+  {
+    version: 3,
+    description: 'Number saved categories and goals in the order they are listed',
+    up: ({ read, write }) => {
+      const number = (list: unknown[]) => list.map((item, order) => (isObject(item) ? { ...item, order } : item));
+      const categories = read('dejavu-lab-goals');
+      if (Array.isArray(categories)) write('dejavu-lab-goals', number(categories));
+      const goalsByCategory = read('dejavu-individual-goals');
+      if (!isObject(goalsByCategory)) return;
+      write('dejavu-individual-goals', Object.fromEntries(Object.entries(goalsByCategory).map(([categoryId, goals]) => [
+        categoryId,
+        Array.isArray(goals) ? number(goals) : goals,
+      ])));
+    },
+  },
+];
@@ -0,0 +1,90 @@
+// Versioned schema for persisted data. Saved data carries the version it was
+// written with; ordered migrations bring it up to date before anything reads
+// it, and blobs that can't be parsed are set aside rather than overwritten.
+// Both the web and mobile apps import this file; each supplies its own
+// StorageAdapter (localStorage in storage.ts, AsyncStorage in the mobile
+// app's utils/storage.ts).
+
+export interface StorageAdapter {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+  keys(): string[];
+}
+
+export interface MigrationContext {
+  // undefined when missing or unreadable (unreadable blobs get quarantined)
+  read(key: string): unknown;
+  write(key: string, value: unknown): void;
+  remove(key: string): void;
+  keys(prefix: string): string[];
+}
+
+export interface StorageMigration {
+  // The schema version this step produces
+  version: number;
+  description: string;
+  up(context: MigrationContext): void;
+}
+
+export const STORAGE_VERSION_KEY = 'dejavu-storage-version';
+export const QUARANTINE_PREFIX = 'dejavu-quarantine:';
+
+// Moves an unparseable value out of the way so the next save can't destroy
+// it; it stays on the device for recovery or a bug report.
+export function quarantine(adapter: StorageAdapter, key: string, raw: string) {
+  const target = `${QUARANTINE_PREFIX}${key}:${new Date().toISOString()}`;
+  try {
+    adapter.setItem(target, raw);
+    adapter.removeItem(key);
+    console.warn(`Saved "${key}" was unreadable and has been moved to "${target}".`);
+  } catch (e) {
+    console.error(`Failed to quarantine "${key}":`, e);
+  }
+}
+
+export function listQuarantined(adapter: StorageAdapter) {
+  return adapter.keys().filter(key => key.startsWith(QUARANTINE_PREFIX));
+}
+
+export function readStoredJSON(adapter: StorageAdapter, key: string, reviver?: (key: string, value: unknown) => unknown): unknown {
+  const raw = adapter.getItem(key);
+  if (raw === null) return undefined;
+  try {
+    return JSON.parse(raw, reviver);
+  } catch {
+    quarantine(adapter, key, raw);
+    return undefined;
+  }
+}
+
+export function getSchemaVersion(adapter: StorageAdapter) {
+  const version = Number(adapter.getItem(STORAGE_VERSION_KEY));
+  return Number.isInteger(version) && version > 0 ? version : 0;
+}
+
+// Runs every step newer than the saved version, in order. A failing step
+// stops the run without bumping the version so it is retried next launch.
+export function migrateStorage(adapter: StorageAdapter, migrations: StorageMigration[]) {
+  const from = getSchemaVersion(adapter);
+  const context: MigrationContext = {
+    read: key => readStoredJSON(adapter, key),
+    write: (key, value) => adapter.setItem(key, JSON.stringify(value)),
+    remove: key => adapter.removeItem(key),
+    keys: prefix => adapter.keys().filter(key => key.startsWith(prefix)),
+  };
+
+  let version = from;
+  for (const migration of [...migrations].sort((a, b) => a.version - b.version)) {
+    if (migration.version <= version) continue;
+    try {
+      migration.up(context);
+    } catch (e) {
+      console.error(`Storage migration ${migration.version} (${migration.description}) failed:`, e);
+      break;
+    }
+    version = migration.version;
+    adapter.setItem(STORAGE_VERSION_KEY, String(version));
+  }
+  return { from, to: version };
+}
@@ -0,0 +1,173 @@
+import { IndividualGoal } from '../types/Goal';
+import { addDays, dateKey, daysBetween, habitPeriod, isOccurrenceDay, parseDateKey, startOfDay } from './recurrence';
+
+// Pure streak counting for habits. Streaks are replayed from the completion
+// logs every time rather than stored, so unchecking a day or restoring a
+// backup can never leave them out of step. Days are the user's local days.
+
+// Check-ins this soon after midnight still count for the day before
+export const GRACE_HOURS = 3;
+// A freeze is earned for every week of unbroken overall streak
+export const FREEZE_EVERY_DAYS = 7;
+export const MAX_FREEZES = 2;
+
+export interface StreakState {
+  // Habits done "N times a week" keep their streak in weeks
+  unit: 'day' | 'week';
+  current: number;
+  longest: number;
+  // There is a streak going, and the current day or week isn't done yet
+  atRisk: boolean;
+}
+
+export interface OverallStreak extends StreakState {
+  // Freezes in hand, spent automatically on the next missed day
+  freezes: number;
+  // Days a freeze was spent on, newest last
+  frozenDays: string[];
+}
+
+export interface HabitStreak {
+  goal: IndividualGoal;
+  streak: StreakState;
+}
+
+export interface StreakSummary {
+  overall: OverallStreak;
+  // goal id -> streak in that habit's own periods (days or weeks)
+  habits: Record<string, StreakState>;
+}
+
+type DayStatus = 'done' | 'missed' | 'open' | 'rest';
+
+const EMPTY_OVERALL: OverallStreak = { unit: 'day', current: 0, longest: 0, atRisk: false, freezes: 0, frozenDays: [] };
+
+function inGraceWindow(now: Date) {
+  return now.getHours() < GRACE_HOURS;
+}
+
+// Whether a missed period can still be saved by a late check-in
+function stillOpen(end: Date, now: Date) {
+  return end.getTime() > now.getTime() ||
+    (inGraceWindow(now) && end.getTime() === startOfDay(now).getTime());
+}
+
+// The day a check-in (or undoing one) made now is for. In the small hours
+// that's still yesterday, if yesterday was due or checked in and today
+// hasn't been started, so a late check-in can be undone as well as made.
+export function checkInDate(goal: IndividualGoal, now = new Date()) {
+  if (!goal.recurrence || !inGraceWindow(now)) return now;
+  const completions = goal.completions ?? [];
+  if (completions.includes(dateKey(now))) return now;
+  const yesterday = addDays(now, -1);
+  const period = habitPeriod(goal, yesterday, now);
+  return period?.status === 'missed' || completions.includes(dateKey(yesterday)) ? yesterday : now;
+}
+
+// A day counts for the overall streak when every habit due that day was done.
+// Habits done "N times a week" aren't due on any one day, but checking one
+// off still makes an otherwise empty day count.
+function overallDayStatus(habits: IndividualGoal[], day: Date, now: Date): DayStatus {
+  const key = dateKey(day);
+  const doneOn = (goal: IndividualGoal) => goal.completions?.includes(key) ?? false;
+  const due = habits.filter(goal => goal.recurrence!.kind !== 'weekly' && isOccurrenceDay(goal.recurrence!, day));
+
+  if (due.length === 0) return habits.some(doneOn) ? 'done' : 'rest';
+  if (due.every(doneOn)) return 'done';
+  return stillOpen(addDays(day, 1), now) ? 'open' : 'missed';
+}
+
+function computeOverall(habits: IndividualGoal[], now: Date): OverallStreak {
+  if (habits.length === 0) return EMPTY_OVERALL;
+
+  const first = habits
+    .map(goal => parseDateKey(goal.recurrence!.start))
+    .reduce((a, b) => (a.getTime() < b.getTime() ? a : b));
+  const days = daysBetween(first, now);
+
+  let current = 0;
+  let longest = 0;
+  let freezes = 0;
+  let sinceFreeze = 0;
+  let atRisk = false;
+  const frozenDays: string[] = [];
+
+  for (let i = 0; i <= days; i++) {
+    const day = addDays(first, i);
+    const status = overallDayStatus(habits, day, now);
+    if (status === 'done') {
+      current++;
+      sinceFreeze++;
+      if (sinceFreeze === FREEZE_EVERY_DAYS) {
+        freezes = Math.min(freezes + 1, MAX_FREEZES);
+        sinceFreeze = 0;
+      }
+    } else if (status === 'missed') {
+      if (freezes > 0) {
+        freezes--;
+        frozenDays.push(dateKey(day));
+      } else {
+        current = 0;
+        sinceFreeze = 0;
+      }
+    } else if (status === 'open') {
+      atRisk = current > 0;
+    }
+    longest = Math.max(longest, current);
+  }
+
+  return { unit: 'day', current, longest, atRisk, freezes, frozenDays };
+}
+
+// A habit's own streak counts its periods: days, or weeks for "N times a
+// week". Days the overall streak froze are forgiven here too.
+function computeHabit(goal: IndividualGoal, frozenDays: Set<string>, now: Date): StreakState {
+  const recurrence = goal.recurrence!;
+  const weekly = recurrence.kind === 'weekly';
+  const step = weekly ? 7 : 1;
+  // Start from the beginning of the first period so the current one is reached
+  const first = habitPeriod(goal, parseDateKey(recurrence.start), now)!.start;
+
+  let current = 0;
+  let longest = 0;
+  let atRisk = false;
+
+  for (let date = first; date.getTime() <= now.getTime(); date = addDays(date, step)) {
+    const period = habitPeriod(goal, date, now)!;
+    if (period.status === 'done') {
+      current++;
+    } else if (period.status === 'open' || (period.status === 'missed' && stillOpen(period.end, now))) {
+      atRisk = current > 0;
+    } else if (period.status === 'missed') {
+      const forgiven = !weekly && frozenDays.has(dateKey(period.start));
+      if (!forgiven) current = 0;
+    }
+    longest = Math.max(longest, current);
+  }
+
+  return { unit: weekly ? 'week' : 'day', current, longest, atRisk };
+}
+
+export function computeStreaks(goals: IndividualGoal[], now = new Date()): StreakSummary {
+  const habits = goals.filter(goal => goal.recurrence);
+  const overall = computeOverall(habits, now);
+  const frozenDays = new Set(overall.frozenDays);
+
+  const streaks: Record<string, StreakState> = {};
+  habits.forEach(goal => {
+    streaks[goal.id] = computeHabit(goal, frozenDays, now);
+  });
+  return { overall, habits: streaks };
+}
+
+// The best streak going among a category's habits, for its Lab card
+export function bestStreak(goals: IndividualGoal[], summary: StreakSummary): StreakState | null {
+  return goals
+    .map(goal => summary.habits[goal.id])
+    .filter((streak): streak is StreakState => !!streak)
+    .reduce<StreakState | null>((best, streak) => (!best || streak.current > best.current ? streak : best), null);
+}
+
+export function habitStreaks(goals: IndividualGoal[], summary: StreakSummary): HabitStreak[] {
+  return goals.flatMap(goal => (summary.habits[goal.id] ? [{ goal, streak: summary.habits[goal.id] }] : []));
+}
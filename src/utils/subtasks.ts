@@ -0,0 +1,69 @@
+import { IndividualGoal, Subtask } from '../types/Goal';
+
+// Pure helpers for a goal's subtask tree. Every update returns a new tree so
+// it can go through updateGoalCommand and be undone.
+
+export const MAX_SUBTASK_DEPTH = 3;
+
+export interface SubtaskProgress {
+  done: number;
+  total: number;
+}
+
+// A subtask with steps of its own is done when all of them are
+export function isSubtaskDone(subtask: Subtask): boolean {
+  return subtask.subtasks && subtask.subtasks.length > 0
+    ? subtask.subtasks.every(isSubtaskDone)
+    : subtask.completed;
+}
+
+// Counts the leaves of the tree, so deeply split work weighs as much as the
+// number of steps it was split into
+export function subtaskProgress(subtasks: Subtask[] = []): SubtaskProgress {
+  return subtasks.reduce<SubtaskProgress>((sum, subtask) => {
+    if (subtask.subtasks && subtask.subtasks.length > 0) {
+      const inner = subtaskProgress(subtask.subtasks);
+      return { done: sum.done + inner.done, total: sum.total + inner.total };
+    }
+    return { done: sum.done + (subtask.completed ? 1 : 0), total: sum.total + 1 };
+  }, { done: 0, total: 0 });
+}
+
+// 0 to 1. Goals without subtasks are all or nothing.
+export function goalProgress(goal: IndividualGoal, complete = goal.completed) {
+  if (complete) return 1;
+  const { done, total } = subtaskProgress(goal.subtasks);
+  return total > 0 ? done / total : 0;
+}
+
+function mapTree(subtasks: Subtask[], update: (subtask: Subtask) => Subtask | null): Subtask[] {
+  return subtasks.flatMap(subtask => {
+    const next = update(subtask);
+    if (!next) return [];
+    return [next.subtasks ? { ...next, subtasks: mapTree(next.subtasks, update) } : next];
+  });
+}
+
+// null adds at the top level
+export function addSubtask(subtasks: Subtask[] = [], parentId: string | null, subtask: Subtask): Subtask[] {
+  if (parentId === null) return [...subtasks, subtask];
+  return mapTree(subtasks, s => (s.id === parentId ? { ...s, subtasks: [...(s.subtasks ?? []), subtask] } : s));
+}
+
+export function updateSubtask(subtasks: Subtask[] = [], id: string, patch: Partial<Omit<Subtask, 'id'>>): Subtask[] {
+  return mapTree(subtasks, s => (s.id === id ? { ...s, ...patch } : s));
+}
+
+export function removeSubtask(subtasks: Subtask[] = [], id: string): Subtask[] {
+  return mapTree(subtasks, s => (s.id === id ? null : s));
+}
+
+// Checking a step with steps of its own checks (or unchecks) all of them
+export function toggleSubtask(subtasks: Subtask[] = [], id: string): Subtask[] {
+  const setAll = (subtask: Subtask, completed: boolean): Subtask => ({
+    ...subtask,
+    completed,
+    subtasks: subtask.subtasks?.map(child => setAll(child, completed)),
+  });
+  return mapTree(subtasks, s => (s.id === id ? setAll(s, !isSubtaskDone(s)) : s));
+}
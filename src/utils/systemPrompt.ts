@@ -0,0 +1,204 @@
+import { Goal, InfluenceLink, InfluenceWeight } from '../types/Goal';
+import { FuturePersona, PersonaTone } from '../types/Persona';
+import { HabitStreak, OverallStreak } from './streaks';
+
+// Bump whenever the prompt template below changes meaningfully, so stored
+// conversations and previews can tell which wording produced a reply.
+export const SYSTEM_PROMPT_VERSION = 3;
+
+export interface PromptContext {
+  // Set when the chat is scoped to a single Lab category
+  category?: Goal;
+  // Overview of the whole Lab, for chats that plan across categories
+  categories?: Goal[];
+  // Which inputs the user has connected to which outputs in the Lab
+  influences?: InfluenceLink[];
+  // How consistent they've been with their habits
+  streaks?: { overall: OverallStreak; habits: HabitStreak[] };
+}
+
+export interface CompiledPrompt {
+  version: number;
+  personaRevision: number | null;
+  text: string;
+}
+
+const TONE_GUIDANCE: Record<PersonaTone, string> = {
+  warm: 'Be warm and encouraging. Celebrate small wins and be gentle about setbacks.',
+  direct: 'Be direct and concise. Skip the pep talk and focus on the next concrete action.',
+  playful: 'Be light-hearted and playful, with the easy humour of someone who knows how it all turns out.',
+  'tough-love': 'Use tough love. Hold them to their word and call out excuses, but never be cruel.',
+};
+
+export const PERSONA_TONE_LABELS: Record<PersonaTone, string> = {
+  warm: 'Warm',
+  direct: 'Direct',
+  playful: 'Playful',
+  'tough-love': 'Tough love',
+};
+
+export const INFLUENCE_WEIGHT_LABELS: Record<InfluenceWeight, string> = {
+  1: 'Light',
+  2: 'Moderate',
+  3: 'Strong',
+};
+
+function describeLink(category: Goal, weight?: InfluenceWeight) {
+  return weight ? `"${category.title}" (${INFLUENCE_WEIGHT_LABELS[weight].toLowerCase()})` : `"${category.title}"`;
+}
+
+function plural(count: number, word: string) {
+  return `${count} ${count === 1 ? word : `${word}s`}`;
+}
+
+function describeVantagePoint(persona: FuturePersona) {
+  if (persona.targetDate) {
+    const date = new Date(`${persona.targetDate}T00:00:00`);
+    if (!isNaN(date.getTime())) {
+      return `You are speaking from ${date.toLocaleDateString([], { year: 'numeric', month: 'long', day: 'numeric' })}.`;
+    }
+  }
+  if (persona.targetAge) {
+    return `You are speaking as them at age ${persona.targetAge}.`;
+  }
+  return 'You are speaking from a few years in the future.';
+}
+
+function compilePersonaSection(persona: FuturePersona | null) {
+  if (!persona) {
+    return [
+      "You are the user's future self, checking in with the clarity of hindsight.",
+      'You have already reached the goals they are working towards.',
+      TONE_GUIDANCE.warm,
+    ];
+  }
+
+  const who = persona.name.trim() ? `${persona.name.trim()}'s` : "the user's";
+  const lines = [
+    `You are ${who} future self, checking in with the clarity of hindsight.`,
+    describeVantagePoint(persona),
+  ];
+  if (persona.whoTheyBecame.trim()) {
+    lines.push(`Who you became: ${persona.whoTheyBecame.trim()}`);
+  }
+  if (persona.whatTheyOvercame.trim()) {
+    lines.push(`What you overcame to get there: ${persona.whatTheyOvercame.trim()}`);
+  }
+  if (persona.values.length > 0) {
+    lines.push(`The values that got you there: ${persona.values.join(', ')}.`);
+  }
+  lines.push(TONE_GUIDANCE[persona.tone]);
+  return lines;
+}
+
+function compileInfluences(inputs: Goal[], influences: InfluenceLink[]) {
+  const lines = inputs.flatMap(input => {
+    const links = influences.filter(link => link.input.id === input.id);
+    if (links.length === 0) return [];
+    return [
+      `- "${input.title}" supports ${plural(links.length, 'output')}: ` +
+        links.map(link => describeLink(link.output, link.weight)).join(', '),
+    ];
+  });
+  if (lines.length === 0) return [];
+  return ['How they say their inputs fuel their outputs:', ...lines];
+}
+
+function compileLabOverview(categories: Goal[], influences: InfluenceLink[]) {
+  if (categories.length === 0) {
+    return ['', 'Their Lab is empty: they have no input or output categories yet.'];
+  }
+
+  const describe = (goal: Goal) =>
+    `- [id ${goal.id}] "${goal.title}": ${goal.completedCount} of ${goal.goalCount} goals complete`;
+  const outputs = categories.filter(g => g.type === 'output');
+  const inputs = categories.filter(g => g.type === 'input');
+  return [
+    '',
+    'Their Lab, where inputs (habits) fuel outputs (results):',
+    'Outputs:',
+    ...(outputs.length > 0 ? outputs.map(describe) : ['- none yet']),
+    'Inputs:',
+    ...(inputs.length > 0 ? inputs.map(describe) : ['- none yet']),
+    ...compileInfluences(inputs, influences),
+  ];
+}
+
+function compileContextSection(context: PromptContext) {
+  const { category, categories, influences = [] } = context;
+  if (categories) return compileLabOverview(categories, influences);
+  if (!category) return [];
+
+  const lines = [
+    '',
+    `This conversation is about their ${category.type} category "${category.title}" ` +
+      `(${category.completedCount} of ${category.goalCount} goals complete).`,
+    category.type === 'input'
+      ? 'Inputs are the habits that fuel their outputs; focus on making this one consistent.'
+      : 'Outputs are results they want to achieve; help break this one into specific, actionable goals.',
+  ];
+  if (category.type === 'input') {
+    const outputs = influences.filter(link => link.input.id === category.id);
+    if (outputs.length > 0) {
+      lines.push(
+        `They say this input supports ${plural(outputs.length, 'output')}: ` +
+          `${outputs.map(link => describeLink(link.output, link.weight)).join(', ')}.`
+      );
+    }
+  } else {
+    const inputs = influences.filter(link => link.output.id === category.id);
+    if (inputs.length > 0) {
+      lines.push(
+        `They say this output is fuelled by ${plural(inputs.length, 'input')}: ` +
+          `${inputs.map(link => describeLink(link.input, link.weight)).join(', ')}.`
+      );
+    }
+  }
+  return lines;
+}
+
+// Only the strongest few habits are listed, to keep the prompt short
+const MAX_PROMPT_HABITS = 8;
+
+function describeStreak({ goal, streak }: HabitStreak) {
+  const today = streak.unit === 'week' ? 'this week' : 'today';
+  return `- "${goal.title}": ${plural(streak.current, streak.unit)} in a row (longest ${streak.longest})` +
+    (streak.atRisk ? `, not done yet ${today}` : '');
+}
+
+function compileStreakSection(context: PromptContext) {
+  const { streaks, category } = context;
+  if (!streaks || streaks.habits.length === 0) return [];
+
+  const habits = streaks.habits
+    .filter(habit => !category || habit.goal.categoryId === category.id)
+    .sort((a, b) => b.streak.current - a.streak.current)
+    .slice(0, MAX_PROMPT_HABITS);
+  const { overall } = streaks;
+  const freezes = overall.freezes > 0 ? `, with ${plural(overall.freezes, 'streak freeze')} saved up` : '';
+  return [
+    '',
+    `Their overall streak: ${plural(overall.current, 'day')} of doing every habit due (longest ${overall.longest})${freezes}.` +
+      (overall.atRisk ? " Today's habits aren't all done yet." : ''),
+    ...(habits.length > 0 ? [category ? 'Streaks in this category:' : 'Habit streaks:', ...habits.map(describeStreak)] : []),
+    'Celebrate streaks and help protect the ones at risk, but never guilt them over a broken one.',
+  ];
+}
+
+// Turns the persona (or the generic future self when none is set) plus any
+// chat-specific context into the system prompt sent with every request.
+export function compileSystemPrompt(persona: FuturePersona | null, context: PromptContext = {}): CompiledPrompt {
+  const lines = [
+    ...compilePersonaSection(persona),
+    'Speak in the first person as their future self, never as an assistant. Keep replies short and practical, ' +
+      'and help them stay consistent one small step at a time.',
+    ...compileContextSection(context),
+    ...compileStreakSection(context),
+  ];
+
+  return {
+    version: SYSTEM_PROMPT_VERSION,
+    personaRevision: persona?.revision ?? null,
+    text: lines.join('\n'),
+  };
+}
@@ -0,0 +1,17 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_AI_PROVIDER?: string;
+  readonly VITE_AI_BASE_URL?: string;
+  readonly VITE_AI_MODEL?: string;
+  readonly VITE_AI_API_KEY?: string;
+  readonly VITE_GOOGLE_CLIENT_ID?: string;
+  readonly VITE_CANVAS_BASE_URL?: string;
+  readonly VITE_CANVAS_CLIENT_ID?: string;
+  readonly VITE_CANVAS_ACCESS_TOKEN?: string;
+  readonly VITE_AUTH_MOCK_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}